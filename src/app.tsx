@@ -4,7 +4,7 @@ import { Game } from './game'
 
 export class App extends Component {
   public override componentDidMount(): void {
-    Game.getInstance()
+    Game.getInstance({ persist: true, hashRouting: true })
   }
 
   public override render(): JSX.Element {
@@ -13,14 +13,21 @@ export class App extends Component {
         <div class='hud'>
           <b>Libro 3D</b> + <b>OrbitControls</b>
           <br />
-          Arrastra para orbitar · rueda para zoom
+          Arrastra fuera del libro para orbitar · rueda para zoom
+          <br />
+          Arrastra una pagina para girarla
           <br />
           Click derecha = siguiente · izquierda = anterior · <kbd>→</kbd>/
-          <kbd>←</kbd> · <kbd>C</kbd> abrir/cerrar
+          <kbd>←</kbd> · <kbd>Inicio</kbd>/<kbd>Fin</kbd> ir al principio/final
+          · <kbd>C</kbd> abrir/cerrar · <kbd>P</kbd> pausa · <kbd>B</kbd>/
+          <kbd>M</kbd> marcador / ir al siguiente · <kbd>D</kbd> pluma /
+          rotulador · <kbd>X</kbd> borrar trazos · <kbd>F</kbd> buscar ·
+          <kbd>N</kbd>/<kbd>Mayús</kbd>+<kbd>N</kbd> siguiente / anterior
         </div>
         <div class='hint' id='pageInfo'>
           Spread 1
         </div>
+        <div class='footnote' id='footnote' hidden />
       </div>
     )
   }
@@ -0,0 +1,85 @@
+export type AnnotationTool = 'pen' | 'highlighter'
+
+// Trazo a mano alzada en coordenadas UV de la página (v = 0 abajo), así no
+// depende de la resolución ni del formato de la textura
+export interface AnnotationStroke {
+  tool: AnnotationTool
+  color: string
+  // Grosor en unidades de maqueta (1024 = ancho de la página)
+  width: number
+  // u, v alternados
+  points: number[]
+}
+
+export interface PageAnnotations {
+  spread: number
+  side: 'left' | 'right'
+  strokes: AnnotationStroke[]
+}
+
+export interface AnnotationOptions {
+  tool?: AnnotationTool
+  color?: string
+  width?: number
+}
+
+export const ANNOTATION_DEFAULTS: Record<
+  AnnotationTool,
+  { color: string; width: number }
+> = {
+  pen: { color: '#1d2f6f', width: 4 },
+  highlighter: { color: '#f2d22e', width: 28 },
+}
+
+export function isAnnotationStroke(value: unknown): value is AnnotationStroke {
+  const s = value as Partial<AnnotationStroke> | null
+  return (
+    !!s &&
+    (s.tool === 'pen' || s.tool === 'highlighter') &&
+    typeof s.color === 'string' &&
+    typeof s.width === 'number' &&
+    s.width > 0 &&
+    Array.isArray(s.points) &&
+    s.points.length % 2 === 0 &&
+    s.points.every(Number.isFinite)
+  )
+}
+
+/**
+ * Dibuja los trazos sobre la página ya pintada; `size` es la página en
+ * unidades de maqueta. El rotulador multiplica para no tapar el texto.
+ */
+export function drawAnnotations(
+  ctx: CanvasRenderingContext2D,
+  strokes: AnnotationStroke[],
+  size: { width: number; height: number },
+): void {
+  ctx.save()
+  ctx.lineJoin = 'round'
+  for (const stroke of strokes) {
+    const { points } = stroke
+    if (points.length < 2) continue
+    const highlighter = stroke.tool === 'highlighter'
+    ctx.globalCompositeOperation = highlighter ? 'multiply' : 'source-over'
+    ctx.globalAlpha = highlighter ? 0.45 : 0.92
+    ctx.strokeStyle = stroke.color
+    ctx.fillStyle = stroke.color
+    ctx.lineWidth = stroke.width
+    ctx.lineCap = highlighter ? 'butt' : 'round'
+
+    const x = (i: number) => points[i] * size.width
+    const y = (i: number) => (1 - points[i + 1]) * size.height
+    if (points.length === 2) {
+      // Un toque sin arrastre deja un punto
+      ctx.beginPath()
+      ctx.arc(x(0), y(0), stroke.width / 2, 0, Math.PI * 2)
+      ctx.fill()
+      continue
+    }
+    ctx.beginPath()
+    ctx.moveTo(x(0), y(0))
+    for (let i = 2; i < points.length; i += 2) ctx.lineTo(x(i), y(i))
+    ctx.stroke()
+  }
+  ctx.restore()
+}
@@ -0,0 +1,118 @@
+export type BookActionReason =
+  'blocked' | 'out-of-range' | 'cover-closed' | 'cancelled'
+
+const reasonMessages: Record<BookActionReason, string> = {
+  blocked: 'hay otra animación en curso',
+  'out-of-range': 'el spread pedido no existe',
+  'cover-closed': 'la tapa está cerrada',
+  cancelled: 'la acción se canceló antes de terminar',
+}
+
+/** Rechazo de las acciones del Book (flipPage, toggleCover, goToSpread...). */
+export class BookActionError extends Error {
+  readonly reason: BookActionReason
+
+  constructor(reason: BookActionReason) {
+    super(reasonMessages[reason])
+    this.name = 'BookActionError'
+    this.reason = reason
+  }
+}
+
+export type BookEventListener<T> = (payload: T) => void
+
+export type ListenerErrorHandler<Events> = (
+  type: keyof Events,
+  error: unknown,
+) => void
+
+// Por defecto lo que lanza un listener se relanza aparte: llega a
+// window.onerror sin cortar a los demás listeners
+export function rethrowLater(_type: PropertyKey, error: unknown): void {
+  queueMicrotask(() => {
+    throw error
+  })
+}
+
+/** Emisor mínimo con tipos por evento. */
+export class TypedEmitter<Events extends object> {
+  private readonly listeners = new Map<
+    keyof Events,
+    Set<BookEventListener<never>>
+  >()
+  // Envoltorio registrado por once para cada listener original, para que
+  // off() con el original también lo quite
+  private readonly onceWrappers = new Map<
+    keyof Events,
+    Map<BookEventListener<never>, BookEventListener<never>>
+  >()
+  private readonly onListenerError: ListenerErrorHandler<Events>
+
+  constructor(onListenerError?: ListenerErrorHandler<Events>) {
+    this.onListenerError = onListenerError ?? rethrowLater
+  }
+
+  public on<K extends keyof Events>(
+    type: K,
+    listener: BookEventListener<Events[K]>,
+  ): () => void {
+    let set = this.listeners.get(type)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(type, set)
+    }
+    set.add(listener)
+    return () => this.off(type, listener)
+  }
+
+  public once<K extends keyof Events>(
+    type: K,
+    listener: BookEventListener<Events[K]>,
+  ): () => void {
+    let wrappers = this.onceWrappers.get(type)
+    if (!wrappers) {
+      wrappers = new Map()
+      this.onceWrappers.set(type, wrappers)
+    }
+    // Como con on(), registrar dos veces el mismo listener no lo duplica
+    if (!wrappers.has(listener)) {
+      const wrapper: BookEventListener<Events[K]> = payload => {
+        this.off(type, listener)
+        listener(payload)
+      }
+      wrappers.set(listener, wrapper)
+      this.on(type, wrapper)
+    }
+    return () => this.off(type, listener)
+  }
+
+  public off<K extends keyof Events>(
+    type: K,
+    listener: BookEventListener<Events[K]>,
+  ): void {
+    const wrappers = this.onceWrappers.get(type)
+    const wrapper = wrappers?.get(listener)
+    if (wrapper) {
+      wrappers?.delete(listener)
+      this.listeners.get(type)?.delete(wrapper)
+    }
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  public emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const set = this.listeners.get(type)
+    if (!set) return
+    for (const listener of [...set]) {
+      try {
+        ;(listener as BookEventListener<Events[K]>)(payload)
+      } catch (err) {
+        this.onListenerError(type, err)
+      }
+    }
+  }
+
+  public clear(): void {
+    this.listeners.clear()
+    this.onceWrappers.clear()
+  }
+}
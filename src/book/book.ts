@@ -4,16 +4,112 @@ import type {
   BookCallbacks,
   Spread,
   BookAnimationSpeeds,
+  BookEventMap,
+  ActionAnimation,
+  Bookmark,
+  BookmarkOptions,
+  BookState,
+  BookRegionHit,
 } from './book.types'
+import { resolveEasing } from './easing'
+import type { EasingFunction, EasingName } from './easing'
+import { BookActionError, TypedEmitter, rethrowLater } from './book-events'
+import type { BookActionReason, BookEventListener } from './book-events'
+import { bendTurnGeometry, createTurnGeometry } from './page-curl'
+import { SpreadStore } from './spread-store'
+import { createRibbonGeometry } from './ribbon'
+import { regionAtUV } from './page-regions'
+import {
+  redrawPageTexture,
+  setPageAnnotations,
+  setPageHighlights,
+  setPageReveal,
+  textureAssetsReady,
+} from './texture-generator'
+import type { PageContent } from './texture-generator'
+import {
+  pageCountOfSpreads,
+  pagesOfSpread,
+  spreadOfPage,
+  spreadsFromPages,
+} from './sheets'
+import type { SpreadPages } from './sheets'
+import { resolveCoverTheme, resolvePageTheme } from './themes'
+import { DEFAULT_BOOK_DIMENSIONS } from './texture-format'
+import type { CoverTheme, PageTheme } from './themes'
+import { ANNOTATION_DEFAULTS, isAnnotationStroke } from './annotations'
+import type {
+  AnnotationOptions,
+  AnnotationStroke,
+  PageAnnotations,
+} from './annotations'
+import type { SearchMatch, TextHighlight } from './search'
+
+interface Deferred<T> {
+  promise: Promise<T>
+  resolve: (value: T) => void
+  reject: (err: Error) => void
+}
+
+function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void
+  let reject!: (err: Error) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+// Listas compartidas para las páginas sin trazos ni resaltados (así no se
+// redibujan si no cambian)
+const NO_STROKES: AnnotationStroke[] = []
+const NO_HIGHLIGHTS: TextHighlight[] = []
+
+function pageKey(spread: number, side: 'left' | 'right'): string {
+  return `${spread}:${side}`
+}
+
+interface ResolvedAnimation {
+  duration: number
+  easing: EasingFunction
+}
+
+function resolveAnimation(
+  value: number | ActionAnimation | undefined,
+  duration: number,
+  easing: EasingName,
+): ResolvedAnimation {
+  const cfg = typeof value === 'number' ? { duration: value } : (value ?? {})
+  return {
+    duration: Math.max(0, cfg.duration ?? duration),
+    easing: resolveEasing(cfg.easing, easing),
+  }
+}
 
 export class Book {
   private readonly group: THREE.Group
   private readonly config: BookConfig & {
     dimensions: Required<NonNullable<BookConfig['dimensions']>>
-    speeds: Required<NonNullable<BookConfig['speeds']>>
     initialSpreadIndex: number
+    pageCurl: number
+    spreadWindow: number
+    maxLoadedSpreads: number
   }
   private readonly callbacks?: BookCallbacks
+  // Lo que lanza un listener se emite como 'error' (salvo si lanza uno de
+  // 'error', que se relanza aparte para no entrar en bucle)
+  private readonly events: TypedEmitter<BookEventMap> = new TypedEmitter(
+    (event, error) => {
+      if (event === 'error') rethrowLater(event, error)
+      else this.events.emit('error', { source: 'listener', event, error })
+    },
+  )
+
+  // Promesas de las acciones en curso
+  private coverDone: Deferred<void> | null = null
+  private flipDone: Deferred<boolean> | null = null
+  private riffleDone: Deferred<void> | null = null
 
   // Dimensiones
   private readonly pageW: number
@@ -28,13 +124,20 @@ export class Book {
 
   // Estado
   private spreadIndex: number
-  private readonly spreads: Spread[]
+  private readonly store: SpreadStore
+  // Con `pages`, cuántas hay (null si el contenido se dio por spreads)
+  private pageCount: number | null
   private readonly pageInfo: HTMLDivElement | null
+  private readonly raycaster = new THREE.Raycaster()
+
+  // Cache para texturas volteadas (clave: textura original)
+  private readonly flippedCache = new Map<THREE.Texture, THREE.Texture>()
 
-  // Cache para texturas volteadas
-  private readonly flippedCache = new Map<string, THREE.Texture>()
+  // Ediciones pedidas durante un flip; se aplican al terminar
+  private readonly pendingEdits: Array<() => void> = []
 
   // Geometrías y materiales
+  private readonly theme: { page: PageTheme; cover: CoverTheme }
   private readonly paperTex: THREE.Texture
   private readonly coverTexFront: THREE.Texture
   private readonly coverTexBack: THREE.Texture
@@ -50,6 +153,8 @@ export class Book {
   private readonly coverMatBack: THREE.MeshStandardMaterial
   private readonly coverSideMat: THREE.MeshStandardMaterial
   private readonly coverInnerMat: THREE.MeshStandardMaterial
+  private readonly spineMat: THREE.MeshStandardMaterial
+  private readonly spineOuterMat: THREE.MeshStandardMaterial
   private readonly pageEdgeMat: THREE.MeshStandardMaterial
   private readonly backPaperMatL: THREE.MeshStandardMaterial
   private readonly backPaperMatR: THREE.MeshStandardMaterial
@@ -64,6 +169,13 @@ export class Book {
   private readonly halfL: THREE.Group
   private readonly halfR: THREE.Group
 
+  // Bloques de hojas y superficies (página, dorso, página de debajo y pivot)
+  // que suben y bajan con su cara superior
+  private readonly pageBlockL: THREE.Mesh
+  private readonly pageBlockR: THREE.Mesh
+  private readonly surfaceL: THREE.Group
+  private readonly surfaceR: THREE.Group
+
   // Animaciones
   private readonly cover = {
     open: true,
@@ -88,6 +200,16 @@ export class Book {
     under: THREE.Mesh | null
     other: THREE.Mesh | null
     otherWasVisible: boolean
+    manual: boolean
+    progress: number
+    from: number
+    to: number
+    duration: number
+    grabX: number
+    velocity: number
+    lastAt: number
+    target: number
+    easing: EasingFunction
   } = {
     active: false,
     dir: 0,
@@ -99,19 +221,82 @@ export class Book {
     under: null,
     other: null,
     otherWasVisible: true,
+    manual: false,
+    progress: 0,
+    from: 0,
+    to: 1,
+    duration: 0,
+    grabX: 0,
+    velocity: 0,
+    lastAt: 0,
+    target: 0,
+    easing: t => t,
+  }
+
+  private readonly riffle = {
+    active: false,
+    from: 0,
+    target: 0,
+    sheets: 0,
+    step: 0,
+    duration: 0,
   }
 
+  // Revelado de tinta del spread actual; t0 null = esperando a que se vea
+  private readonly reveal = {
+    index: null as number | null,
+    t0: null as number | null,
+    textures: [] as THREE.Texture[],
+  }
+  private readonly revealed = new Set<number>()
+
+  // Trazos por página (`spread:lado`); cada cambio crea una lista nueva para
+  // que la textura sepa que tiene que redibujarse
+  private readonly annotations = new Map<string, AnnotationStroke[]>()
+  private drawing: {
+    spread: number
+    side: 'left' | 'right'
+    mesh: THREE.Mesh
+    stroke: AnnotationStroke
+  } | null = null
+
+  // Resultados de búsqueda, el elegido (-1 = ninguno) y los resaltados de
+  // cada página que tiene alguno
+  private readonly results = { matches: [] as SearchMatch[], index: -1 }
+  private readonly highlights = new Map<string, TextHighlight[]>()
+  // Páginas cuyas imágenes ya se vigilan (ver watchAssets)
+  private readonly watchedTextures = new WeakSet<THREE.Texture>()
+
   private readonly geoTurnR: THREE.PlaneGeometry
   private readonly geoTurnL: THREE.PlaneGeometry
 
+  // Marcadores (ordenados por spread) y sus cintas
+  private bookmarks: Bookmark[] = []
+  private bookmarkSeq = 0
+  private readonly ribbons = new Map<string, THREE.Mesh>()
+  private readonly ribbonGeom: THREE.PlaneGeometry
+
   // Geometrías compartidas
   private readonly coverGeom: THREE.BoxGeometry
   private readonly pagesGeom: THREE.BoxGeometry
+  private readonly spineGeom: THREE.BoxGeometry
   private readonly pagePlaneGeom: THREE.PlaneGeometry
   private readonly backPlaneGeom: THREE.PlaneGeometry
 
-  // Velocidades
-  private readonly speeds: Required<BookAnimationSpeeds>
+  // Curvas de animación por acción
+  private readonly anim: {
+    cover: ResolvedAnimation & { overshoot: number; settle: number }
+    flip: ResolvedAnimation & { hideOppositeAt: number }
+    riffle: ResolvedAnimation
+    release: ResolvedAnimation
+    reveal: ResolvedAnimation
+  }
+
+  // Reloj de animación (segundos de libro, no de pared)
+  private time = 0
+  private timeScale = 1
+  private paused = false
+  private lastClock: number | null = null
 
   constructor(
     _renderer: THREE.WebGLRenderer,
@@ -126,28 +311,24 @@ export class Book {
       frontCoverTexture: config.frontCoverTexture,
       backCoverTexture: config.backCoverTexture,
       paperTexture: config.paperTexture,
+      spineTexture: config.spineTexture,
       spreads: config.spreads,
-      dimensions: {
-        pageWidth: 1.6,
-        pageHeight: 2.1,
-        pageGap: 0.0,
-        spineWidth: 0.08,
-        coverThickness: 0.06,
-        pageBlockThickness: 0.09,
-        coverPadding: 0.1,
-        ...config.dimensions,
-      },
-      speeds: {
-        cover: 1.6,
-        flip: 1.2,
-        ...config.speeds,
-      },
+      pages: config.pages,
+      spreadProvider: config.spreadProvider,
+      spreadWindow: config.spreadWindow ?? 1,
+      maxLoadedSpreads: config.maxLoadedSpreads ?? 6,
+      dimensions: { ...DEFAULT_BOOK_DIMENSIONS, ...config.dimensions },
+      speeds: config.speeds,
       initialSpreadIndex: config.initialSpreadIndex ?? 0,
       pageInfoElementId: config.pageInfoElementId,
+      pageCurl: config.pageCurl ?? 0.6,
+      clock: config.clock,
     } as BookConfig & {
       dimensions: Required<NonNullable<BookConfig['dimensions']>>
-      speeds: Required<NonNullable<BookConfig['speeds']>>
       initialSpreadIndex: number
+      pageCurl: number
+      spreadWindow: number
+      maxLoadedSpreads: number
     }
 
     // Dimensiones
@@ -162,19 +343,39 @@ export class Book {
     this.coverPad = dims.coverPadding ?? 0.1
     this.coverCenterZ = -(this.pageBlockT + this.coverT / 2)
 
-    this.spreads = config.spreads
     this.spreadIndex = this.config.initialSpreadIndex ?? 0
+    this.cover.open = config.initialCoverOpen ?? true
     this.pageInfo = this.config.pageInfoElementId
       ? (document.getElementById(
           this.config.pageInfoElementId,
         ) as HTMLDivElement | null)
       : null
 
-    this.speeds = this.config.speeds as Required<BookAnimationSpeeds>
+    this.anim = Book.resolveAnimations(config.speeds ?? {})
 
     // Validaciones
     this.validateConfig()
 
+    const { pages, spreads } = this.config
+    this.pageCount = this.config.spreadProvider
+      ? (this.config.spreadProvider.pages ?? null)
+      : (pages?.length ?? (spreads ? pageCountOfSpreads(spreads) : null))
+    const spreadWindow = Math.max(0, Math.floor(this.config.spreadWindow))
+    this.store = new SpreadStore(
+      this.config.spreadProvider ??
+        (pages ? spreadsFromPages(pages, config.paperTexture) : null) ??
+        this.config.spreads ??
+        [],
+      {
+        window: spreadWindow,
+        maxLoaded: Math.max(this.config.maxLoadedSpreads, spreadWindow * 2 + 2),
+        onLoad: index => this.onSpreadLoaded(index),
+        onError: (spread, error) =>
+          this.events.emit('error', { source: 'spread', spread, error }),
+        onEvict: (index, spread) => this.onSpreadEvicted(index, spread),
+      },
+    )
+
     // Crear grupo principal
     this.group = new THREE.Group()
     this.group.position.set(0, 0.35, 0)
@@ -193,25 +394,33 @@ export class Book {
     this.coverTexBack.rotation = -Math.PI / 2
     this.coverTexBack.needsUpdate = true
 
+    // Tema: la rugosidad base y sus variantes algo más mates
+    this.theme = {
+      page: resolvePageTheme(config.theme?.page),
+      cover: resolveCoverTheme(config.theme?.cover),
+    }
+    const coverRough = (extra: number) =>
+      Math.min(1, this.theme.cover.roughness + extra)
+
     // Materiales de portada
     this.coverMatFront = new THREE.MeshStandardMaterial({
       map: this.coverTexFront,
-      roughness: 0.85,
+      roughness: coverRough(0),
       metalness: 0.05,
     })
     this.coverMatBack = new THREE.MeshStandardMaterial({
       map: this.coverTexBack,
-      roughness: 0.9,
+      roughness: coverRough(0.05),
       metalness: 0.02,
     })
     this.coverSideMat = new THREE.MeshStandardMaterial({
-      color: 0x141c35,
-      roughness: 0.95,
+      color: this.theme.cover.sideColor,
+      roughness: coverRough(0.1),
       metalness: 0,
     })
     this.coverInnerMat = new THREE.MeshStandardMaterial({
       map: this.paperTex,
-      roughness: 0.98,
+      roughness: this.edgeRoughness(),
       metalness: 0,
       color: 0xffffff,
     })
@@ -223,26 +432,35 @@ export class Book {
       this.pageH + this.coverPad * 2,
       this.coverT,
     )
-    this.pagesGeom = new THREE.BoxGeometry(
-      this.pageW,
-      this.pageH,
-      this.pageBlockT,
-    )
+    // Grosor unitario: cada bloque lo escala según lo leído
+    this.pagesGeom = new THREE.BoxGeometry(this.pageW, this.pageH, 1)
 
-    // Lomo (geometría no compartida, se crea inline)
-    const spineGeom = new THREE.BoxGeometry(
+    // Lomo: la textura va en la cara exterior (-z)
+    this.spineGeom = new THREE.BoxGeometry(
       Math.max(this.spineW, 0.06) + this.coverPad * 1.2,
       this.pageH + this.coverPad * 2,
       this.coverT + 0.15,
     )
-    const spine = new THREE.Mesh(
-      spineGeom,
-      new THREE.MeshStandardMaterial({
-        color: 0x10172d,
-        roughness: 0.9,
-        metalness: 0,
-      }),
-    )
+    this.spineMat = new THREE.MeshStandardMaterial({
+      color: this.theme.cover.spineColor,
+      roughness: coverRough(0.05),
+      metalness: 0,
+    })
+    this.spineOuterMat = this.config.spineTexture
+      ? new THREE.MeshStandardMaterial({
+          map: this.config.spineTexture,
+          roughness: coverRough(0.03),
+          metalness: 0.04,
+        })
+      : this.spineMat
+    const spine = new THREE.Mesh(this.spineGeom, [
+      this.spineMat,
+      this.spineMat,
+      this.spineMat,
+      this.spineMat,
+      this.spineMat,
+      this.spineOuterMat,
+    ])
     spine.position.set(0, 0, this.coverCenterZ - 0.002)
     this.group.add(spine)
 
@@ -295,32 +513,24 @@ export class Book {
 
     // Bloques de hojas
     this.pageEdgeMat = new THREE.MeshStandardMaterial({
-      color: 0xf0e6cf,
-      roughness: 0.98,
+      color: this.theme.page.edgeColor,
+      roughness: this.edgeRoughness(),
       metalness: 0,
     })
-    const pageBlockL = new THREE.Mesh(this.pagesGeom, this.pageEdgeMat)
-    pageBlockL.position.set(
-      -(this.pageW / 2 + this.pageGap / 2),
-      0,
-      -(this.pageBlockT / 2),
-    )
+    this.pageBlockL = new THREE.Mesh(this.pagesGeom, this.pageEdgeMat)
+    this.pageBlockL.position.x = -(this.pageW / 2 + this.pageGap / 2)
 
-    const pageBlockR = new THREE.Mesh(this.pagesGeom, this.pageEdgeMat)
-    pageBlockR.position.set(
-      +(this.pageW / 2 + this.pageGap / 2),
-      0,
-      -(this.pageBlockT / 2),
-    )
+    this.pageBlockR = new THREE.Mesh(this.pagesGeom, this.pageEdgeMat)
+    this.pageBlockR.position.x = +(this.pageW / 2 + this.pageGap / 2)
 
     // Materiales de páginas
     this.leftMat = new THREE.MeshStandardMaterial({
-      roughness: 0.95,
+      roughness: this.theme.page.roughness,
       metalness: 0,
       side: THREE.FrontSide,
     })
     this.rightMat = new THREE.MeshStandardMaterial({
-      roughness: 0.95,
+      roughness: this.theme.page.roughness,
       metalness: 0,
       side: THREE.FrontSide,
     })
@@ -342,13 +552,13 @@ export class Book {
 
     // Backs de papel
     this.backPaperMatL = new THREE.MeshStandardMaterial({
-      roughness: 0.98,
+      roughness: this.edgeRoughness(),
       metalness: 0,
       side: THREE.FrontSide,
       map: this.paperTex,
     })
     this.backPaperMatR = new THREE.MeshStandardMaterial({
-      roughness: 0.98,
+      roughness: this.edgeRoughness(),
       metalness: 0,
       side: THREE.FrontSide,
       map: this.paperTex,
@@ -366,12 +576,12 @@ export class Book {
 
     // Páginas debajo
     this.underMatR = new THREE.MeshStandardMaterial({
-      roughness: 0.95,
+      roughness: this.theme.page.roughness,
       metalness: 0,
       side: THREE.FrontSide,
     })
     this.underMatL = new THREE.MeshStandardMaterial({
-      roughness: 0.95,
+      roughness: this.theme.page.roughness,
       metalness: 0,
       side: THREE.FrontSide,
     })
@@ -396,27 +606,27 @@ export class Book {
     this.halfR = new THREE.Group()
     content.add(this.halfL, this.halfR)
 
-    this.halfL.add(
-      pageBlockL,
-      this.leftPage,
-      leftBack,
-      this.underLeft,
-      this.pivotL,
-    )
-    this.halfR.add(
-      pageBlockR,
-      this.rightPage,
-      rightBack,
-      this.underRight,
-      this.pivotR,
-    )
+    this.surfaceL = new THREE.Group()
+    this.surfaceL.add(this.leftPage, leftBack, this.underLeft, this.pivotL)
+    this.surfaceR = new THREE.Group()
+    this.surfaceR.add(this.rightPage, rightBack, this.underRight, this.pivotR)
 
-    // Geometrías de flip
-    this.geoTurnR = new THREE.PlaneGeometry(this.pageW, this.pageH)
-    this.geoTurnR.translate(this.pageW / 2, 0, 0)
+    this.halfL.add(this.pageBlockL, this.surfaceL)
+    this.halfR.add(this.pageBlockR, this.surfaceR)
 
-    this.geoTurnL = new THREE.PlaneGeometry(this.pageW, this.pageH)
-    this.geoTurnL.translate(-this.pageW / 2, 0, 0)
+    // Geometrías de flip
+    this.geoTurnR = createTurnGeometry(this.pageW, this.pageH, 1)
+    this.geoTurnL = createTurnGeometry(this.pageW, this.pageH, -1)
+
+    // Cinta: nace en la cabeza del lomo, cruza la página y cuelga por abajo
+    this.ribbonGeom = createRibbonGeometry(
+      0.045,
+      this.pageH + this.coverPad * 0.6,
+      0.35,
+    )
+    this.bookmarks = (this.config.bookmarks ?? [])
+      .filter(b => b.spread >= 0 && b.spread < this.store.count)
+      .map(b => ({ ...b }))
 
     // Inicializar spread
     this.setSpread(this.spreadIndex)
@@ -450,23 +660,785 @@ export class Book {
     return this.flip.active
   }
 
-  public toggleCover(): void {
-    if (this.flip.active || this.cover.anim) return
+  public on<K extends keyof BookEventMap>(
+    type: K,
+    listener: BookEventListener<BookEventMap[K]>,
+  ): () => void {
+    return this.events.on(type, listener)
+  }
+
+  public once<K extends keyof BookEventMap>(
+    type: K,
+    listener: BookEventListener<BookEventMap[K]>,
+  ): () => void {
+    return this.events.once(type, listener)
+  }
+
+  public off<K extends keyof BookEventMap>(
+    type: K,
+    listener: BookEventListener<BookEventMap[K]>,
+  ): void {
+    this.events.off(type, listener)
+  }
+
+  /** Abre o cierra la tapa; resuelve cuando la animación termina. */
+  public toggleCover(): Promise<void> {
+    if (this.flip.active || this.riffle.active || this.cover.anim) {
+      return this.refuse('blocked')
+    }
     this.cover.anim = true
-    this.cover.t0 = performance.now() / 1000
+    this.cover.t0 = this.time
     this.cover.open = !this.cover.open
-    this.callbacks?.onCoverToggle?.(this.cover.open)
+    const open = this.cover.open
+    this.events.emit(open ? 'coveropenstart' : 'coverclosestart', { open })
+    this.coverDone = deferred()
+    return this.coverDone.promise
+  }
+
+  /** Pasa una hoja; resuelve al aterrizar o rechaza con BookActionError. */
+  public flipPage(dir: 1 | -1): Promise<void> {
+    const reason = this.blockReason(this.spreadIndex + dir)
+    if (reason) return this.refuse(reason)
+    this.startFlip(dir)
+    this.animateFlipTo(1)
+    this.flipDone = deferred()
+    return this.flipDone.promise.then(() => undefined)
+  }
+
+  public getFlipProgress(): number {
+    return this.flip.active ? this.flip.progress : 0
+  }
+
+  /**
+   * Empieza un flip arrastrado. `ray` es el rayo del puntero en coordenadas de
+   * mundo; el punto donde corta la página queda como punto de agarre.
+   */
+  public beginFlipDrag(dir: 1 | -1, ray: THREE.Ray): boolean {
+    if (this.blockReason(this.spreadIndex + dir)) return false
+    const x = this.rayToLocalX(ray, dir)
+    if (x === null || !this.startFlip(dir, this.spreadIndex + dir, true)) {
+      return false
+    }
+    this.flip.grabX =
+      dir * THREE.MathUtils.clamp(Math.abs(x), this.pageW * 0.2, this.pageW)
+    this.flip.lastAt = this.time
+    return true
+  }
+
+  public dragFlip(ray: THREE.Ray): void {
+    if (!this.flip.active || !this.flip.manual) return
+    const x = this.rayToLocalX(ray, this.flip.dir === -1 ? -1 : 1)
+    if (x === null) return
+    // El punto agarrado gira con la hoja: su proyección es grabX * cos(π·p)
+    const c = THREE.MathUtils.clamp(x / this.flip.grabX, -1, 1)
+    this.setFlipProgress(Math.acos(c) / Math.PI)
+  }
+
+  /** Fija a mano el progreso (0..1) de un flip arrastrado. */
+  public setFlipProgress(progress: number): void {
+    if (!this.flip.active || !this.flip.manual) return
+    const p = THREE.MathUtils.clamp(progress, 0, 1)
+    const now = this.time
+    const dt = now - this.flip.lastAt
+    if (dt > 0) {
+      const v = (p - this.flip.progress) / dt
+      this.flip.velocity = THREE.MathUtils.lerp(this.flip.velocity, v, 0.5)
+    }
+    this.flip.lastAt = now
+    this.applyFlipProgress(p)
+  }
+
+  /**
+   * Suelta un flip arrastrado: termina el giro o vuelve atrás según el
+   * progreso alcanzado y la velocidad del arrastre. Resuelve true si la hoja
+   * terminó de pasar y false si volvió a su sitio.
+   */
+  public releaseFlip(): Promise<boolean> {
+    if (!this.flip.active || !this.flip.manual) return Promise.resolve(false)
+    this.flip.manual = false
+    const projected = this.flip.progress + this.flip.velocity * 0.15
+    this.animateFlipTo(projected >= 0.5 ? 1 : 0, this.anim.release)
+    this.flipDone = deferred()
+    return this.flipDone.promise
+  }
+
+  public getSpreadIndex(): number {
+    return this.spreadIndex
+  }
+
+  public getSpreadCount(): number {
+    return this.store.count
+  }
+
+  /**
+   * Inserta un spread en `index` (0..count). Si cae antes del actual, el
+   * lector sigue viendo el mismo spread. Durante un flip se aplica al terminar.
+   * Un libro con spreadProvider no se puede editar (su contenido lo decide el
+   * provider): esta y las demás ediciones lanzan un Error en el acto, también
+   * si se llaman durante un flip.
+   */
+  public insertSpread(index: number, spread: Spread): void {
+    this.assertSpread(spread)
+    this.edit(() => {
+      const i = THREE.MathUtils.clamp(Math.floor(index), 0, this.store.count)
+      this.store.insert(i, spread)
+      for (const b of this.bookmarks) if (b.spread >= i) b.spread++
+      this.shiftRevealed(i, 1)
+      this.shiftAnnotations(i, 1)
+      if (this.pageCount !== null) this.pageCount += 2
+      if (i <= this.spreadIndex) this.spreadIndex++
+    })
+  }
+
+  /**
+   * Quita el spread `index`; si es el actual se pasa al que ocupa su lugar.
+   * Lanza si es el único spread. Un índice que no existe (o que ya no existe
+   * al aplicar una edición aplazada) no hace nada. Ver insertSpread.
+   */
+  public removeSpread(index: number): void {
+    if (this.store.count === 1) {
+      throw new Error('el libro debe conservar al menos 1 spread')
+    }
+    this.edit(() => {
+      if (index < 0 || index >= this.store.count) return
+      if (this.store.count === 1) return
+      this.releaseFlipped(this.store.remove(index))
+      this.revealed.delete(index)
+      this.shiftRevealed(index + 1, -1)
+      this.annotations.delete(pageKey(index, 'left'))
+      this.annotations.delete(pageKey(index, 'right'))
+      this.shiftAnnotations(index + 1, -1)
+      // Los marcadores del spread quitado pasan al que ocupa su lugar
+      for (const b of this.bookmarks) {
+        if (b.spread > index || b.spread === this.store.count) b.spread--
+      }
+      if (this.pageCount !== null) {
+        this.pageCount = Math.max(1, this.pageCount - 2)
+      }
+      if (index < this.spreadIndex) this.spreadIndex--
+    })
+  }
+
+  /** Cambia el spread `index` por otro (ver insertSpread). */
+  public replaceSpread(index: number, spread: Spread): void {
+    this.assertSpread(spread)
+    this.edit(() => {
+      if (index < 0 || index >= this.store.count) return
+      this.releaseFlipped(this.store.replace(index, spread))
+      this.revealed.delete(index)
+    })
+  }
+
+  /**
+   * Redibuja una página de makePageTexture en su propio canvas, sin crear
+   * texturas nuevas; vale también para la hoja que se está girando. Devuelve
+   * false si el spread no está cargado (con un spreadProvider, lo generará
+   * con lo que tenga el provider cuando haga falta).
+   */
+  public updatePage(
+    spreadIndex: number,
+    side: 'left' | 'right',
+    content: PageContent,
+  ): boolean {
+    if (spreadIndex < 0 || spreadIndex >= this.store.count) {
+      throw new Error(`spread ${spreadIndex} fuera de rango`)
+    }
+    const tex = this.store.get(spreadIndex)?.[side]
+    if (!tex) return false
+    if (tex === this.paperTex) {
+      throw new Error('la página es el papel en blanco compartido')
+    }
+    if (!redrawPageTexture(tex, content)) {
+      throw new Error('la página no se generó con makePageTexture')
+    }
+    this.watchAssets(tex)
+
+    // La copia volteada (dorso de la hoja en giro) se rehace desde el canvas
+    const flipped = this.flippedCache.get(tex)
+    if (flipped) {
+      this.flippedCache.delete(tex)
+      const back = this.flip.backMesh?.material as
+        THREE.MeshStandardMaterial | undefined
+      if (back?.map === flipped) {
+        back.map = this.getFlippedTex(tex)
+        back.needsUpdate = true
+      }
+      flipped.dispose()
+    }
+    return true
+  }
+
+  /** Sustituye todos los spreads (ver insertSpread). */
+  public setSpreads(spreads: Spread[]): void {
+    if (!Array.isArray(spreads) || spreads.length === 0) {
+      throw new Error('spreads debe tener al menos 1 spread')
+    }
+    spreads.forEach(s => this.assertSpread(s))
+    this.edit(() => {
+      this.store.reset(spreads).forEach(s => this.releaseFlipped(s))
+      this.revealed.clear()
+      this.annotations.clear()
+      this.pageCount = pageCountOfSpreads(spreads)
+      this.clampBookmarks()
+    })
+  }
+
+  /**
+   * Sustituye el contenido por una lista plana de páginas (ver
+   * BookConfig.pages e insertSpread).
+   */
+  public setPages(pages: THREE.Texture[]): void {
+    this.assertPages(pages)
+    const spreads = spreadsFromPages(pages, this.paperTex)
+    this.edit(() => {
+      this.store.reset(spreads).forEach(s => this.releaseFlipped(s))
+      this.revealed.clear()
+      this.annotations.clear()
+      this.pageCount = pages.length
+      this.clampBookmarks()
+    })
+  }
+
+  public getPageCount(): number {
+    return this.pageCount ?? this.store.count * 2
+  }
+
+  /** Índices de las páginas visibles; null donde hay papel de relleno. */
+  public getVisiblePages(): SpreadPages {
+    return this.pagesOf(this.spreadIndex)
+  }
+
+  /** Como goToSpread, pero indicando una página (índice base 0). */
+  public goToPage(
+    page: number,
+    options: { animate?: boolean } = {},
+  ): Promise<void> {
+    const p = Math.round(page)
+    if (!(p >= 0 && p < this.getPageCount())) {
+      return this.refuse('out-of-range')
+    }
+    const spread = this.pageCount === null ? Math.floor(p / 2) : spreadOfPage(p)
+    return this.goToSpread(spread, options)
+  }
+
+  /** Marca un spread (por defecto el actual) y devuelve el marcador creado. */
+  public addBookmark(
+    spread: number = this.spreadIndex,
+    options: BookmarkOptions = {},
+  ): Bookmark {
+    const index = Math.round(spread)
+    if (!(index >= 0 && index < this.store.count)) {
+      throw new Error('el spread del marcador no existe')
+    }
+    const bookmark: Bookmark = { id: this.nextBookmarkId(), spread: index }
+    if (options.label !== undefined) bookmark.label = options.label
+    if (options.color !== undefined) bookmark.color = options.color
+    this.bookmarks.push(bookmark)
+    this.bookmarksChanged()
+    return { ...bookmark }
+  }
+
+  public removeBookmark(id: string): boolean {
+    const i = this.bookmarks.findIndex(b => b.id === id)
+    if (i < 0) return false
+    this.bookmarks.splice(i, 1)
+    this.bookmarksChanged()
+    return true
+  }
+
+  /** Copia de los marcadores, ordenados por spread (apta para JSON). */
+  public listBookmarks(): Bookmark[] {
+    return this.bookmarks.map(b => ({ ...b }))
+  }
+
+  /** Sustituye todos los marcadores (p.ej. al restaurar los guardados). */
+  public setBookmarks(bookmarks: Bookmark[]): void {
+    this.bookmarks = bookmarks.map(b => ({ ...b }))
+    this.clampBookmarks()
+    this.bookmarksChanged()
+  }
+
+  public goToBookmark(
+    id: string,
+    options: { animate?: boolean } = {},
+  ): Promise<void> {
+    const bookmark = this.bookmarks.find(b => b.id === id)
+    if (!bookmark) return this.refuse('out-of-range')
+    return this.goToSpread(bookmark.spread, options)
+  }
+
+  /** Estado de lectura para guardarlo (spread, tapa y marcadores). */
+  public exportState(): BookState {
+    return {
+      version: 1,
+      spread: this.spreadIndex,
+      coverOpen: this.cover.open,
+      bookmarks: this.listBookmarks(),
+      revealed: [...this.revealed].sort((a, b) => a - b),
+      annotations: this.exportAnnotations(),
+    }
+  }
+
+  /**
+   * Restaura un estado guardado sin animar. Los campos que falten o no sean
+   * válidos se ignoran; con una animación en curso lanza 'blocked'.
+   */
+  public importState(state: Partial<BookState>): void {
+    if (this.flip.active || this.riffle.active || this.cover.anim) {
+      throw new BookActionError('blocked')
+    }
+    if (typeof state.coverOpen === 'boolean') this.cover.open = state.coverOpen
+    if (Array.isArray(state.bookmarks)) {
+      this.setBookmarks(
+        state.bookmarks.filter(
+          b =>
+            typeof b?.id === 'string' &&
+            Number.isFinite(b.spread) &&
+            (b.label === undefined || typeof b.label === 'string') &&
+            (b.color === undefined || typeof b.color === 'string'),
+        ),
+      )
+    }
+    if (Array.isArray(state.revealed)) {
+      this.finishReveal(true)
+      this.revealed.clear()
+      for (const i of state.revealed) {
+        if (Number.isInteger(i) && i >= 0 && i < this.store.count) {
+          this.revealed.add(i)
+        }
+      }
+    }
+    if (Array.isArray(state.annotations)) {
+      this.importAnnotations(state.annotations)
+    }
+    if (typeof state.spread === 'number' && Number.isFinite(state.spread)) {
+      this.setSpread(Math.round(state.spread))
+    }
+  }
+
+  /** Completa el revelado de tinta en curso; false si no había ninguno. */
+  public skipReveal(): boolean {
+    if (this.reveal.index === null) return false
+    this.finishReveal(true)
+    return true
+  }
+
+  public isRevealActive(): boolean {
+    return this.reveal.index !== null
+  }
+
+  /**
+   * Empieza un trazo en la página bajo el rayo. No se puede con la tapa
+   * cerrada, durante un giro ni sobre el papel en blanco de relleno.
+   */
+  public beginAnnotation(
+    ray: THREE.Ray,
+    options: AnnotationOptions = {},
+  ): boolean {
+    if (!this.cover.open || this.cover.anim || this.flip.active) return false
+    if (this.riffle.active) return false
+    this.endAnnotation()
+    this.raycaster.ray.copy(ray)
+    const [hit] = this.raycaster.intersectObjects(
+      [this.leftPage, this.rightPage],
+      false,
+    )
+    if (!hit?.uv) return false
+    const side = hit.object === this.leftPage ? 'left' : 'right'
+    const tex = this.store.get(this.spreadIndex)?.[side]
+    if (!tex || tex === this.paperTex) return false
+
+    const tool = options.tool ?? 'pen'
+    const stroke: AnnotationStroke = {
+      tool,
+      color: options.color ?? ANNOTATION_DEFAULTS[tool].color,
+      width: options.width ?? ANNOTATION_DEFAULTS[tool].width,
+      points: [hit.uv.x, hit.uv.y],
+    }
+    const key = pageKey(this.spreadIndex, side)
+    const strokes = [...(this.annotations.get(key) ?? []), stroke]
+    if (!setPageAnnotations(tex, strokes)) return false
+    this.annotations.set(key, strokes)
+    this.drawing = {
+      spread: this.spreadIndex,
+      side,
+      mesh: hit.object as THREE.Mesh,
+      stroke,
+    }
+    return true
+  }
+
+  /** Alarga el trazo en curso hasta donde apunta el rayo (si sigue en su página). */
+  public extendAnnotation(ray: THREE.Ray): void {
+    const drawing = this.drawing
+    if (!drawing) return
+    this.raycaster.ray.copy(ray)
+    const [hit] = this.raycaster.intersectObject(drawing.mesh, false)
+    if (!hit?.uv) return
+    const { points } = drawing.stroke
+    const du = hit.uv.x - points[points.length - 2]
+    const dv = hit.uv.y - points[points.length - 1]
+    // Los movimientos de menos de un par de píxeles no aportan nada
+    if (du * du + dv * dv < 0.002 ** 2) return
+    points.push(hit.uv.x, hit.uv.y)
+    const key = pageKey(drawing.spread, drawing.side)
+    this.annotations.set(key, [...(this.annotations.get(key) ?? [])])
+    this.applyDecorations(drawing.spread)
+  }
+
+  /** Cierra el trazo en curso y emite 'annotationchange'. */
+  public endAnnotation(): boolean {
+    const drawing = this.drawing
+    if (!drawing) return false
+    this.drawing = null
+    this.events.emit('annotationchange', { spread: drawing.spread })
+    return true
+  }
+
+  public isAnnotating(): boolean {
+    return this.drawing !== null
+  }
+
+  /** Borra los trazos de un spread (por defecto el actual). */
+  public clearAnnotations(spread: number = this.spreadIndex): boolean {
+    if (this.drawing?.spread === spread) this.drawing = null
+    const left = this.annotations.delete(pageKey(spread, 'left'))
+    const right = this.annotations.delete(pageKey(spread, 'right'))
+    if (!left && !right) return false
+    this.applyDecorations(spread)
+    this.events.emit('annotationchange', { spread })
+    return true
+  }
+
+  /** Copia de todos los trazos, por página (apta para JSON). */
+  public exportAnnotations(): PageAnnotations[] {
+    return [...this.annotations]
+      .map(([key, strokes]) => {
+        const [spread, side] = key.split(':')
+        return {
+          spread: Number(spread),
+          side: side as PageAnnotations['side'],
+          strokes: strokes.map(s => ({ ...s, points: [...s.points] })),
+        }
+      })
+      .filter(page => page.strokes.length)
+      .sort((a, b) => a.spread - b.spread || a.side.localeCompare(b.side))
+  }
+
+  /**
+   * Sustituye todos los trazos (p.ej. los guardados). Las páginas fuera de
+   * rango y los trazos mal formados se ignoran.
+   */
+  public importAnnotations(pages: PageAnnotations[]): void {
+    const before = new Set(this.annotations.keys())
+    this.drawing = null
+    this.annotations.clear()
+    for (const page of pages) {
+      if (!Number.isInteger(page?.spread)) continue
+      if (page.spread < 0 || page.spread >= this.store.count) continue
+      if (page.side !== 'left' && page.side !== 'right') continue
+      if (!Array.isArray(page.strokes)) continue
+      const strokes = page.strokes
+        .filter(isAnnotationStroke)
+        .map(s => ({ ...s, points: [...s.points] }))
+      if (strokes.length) {
+        this.annotations.set(pageKey(page.spread, page.side), strokes)
+      }
+    }
+    const touched = [...before, ...this.annotations.keys()]
+    new Set(touched.map(key => Number(key.split(':')[0]))).forEach(i =>
+      this.applyDecorations(i),
+    )
+  }
+
+  /**
+   * Resalta en sus páginas los resultados de una búsqueda (ver
+   * createSearchIndex). Ninguno queda elegido hasta showSearchResult o
+   * nextSearchResult; una lista vacía quita los resaltados.
+   */
+  public setSearchResults(matches: SearchMatch[]): void {
+    const keys = new Set(this.highlights.keys())
+    this.results.matches = matches
+      .filter(m => Number.isInteger(m.spread))
+      .filter(m => m.spread >= 0 && m.spread < this.store.count)
+      .map(m => ({ ...m }))
+    this.results.index = -1
+    for (const m of this.results.matches) keys.add(pageKey(m.spread, m.side))
+    this.refreshHighlights(keys)
+    this.searchChanged()
+  }
+
+  public clearSearch(): void {
+    if (this.results.matches.length) this.setSearchResults([])
+  }
+
+  /** Copia de los resultados y el índice del elegido (-1 = ninguno). */
+  public getSearchResults(): { matches: SearchMatch[]; index: number } {
+    return {
+      matches: this.results.matches.map(m => ({ ...m })),
+      index: this.results.index,
+    }
+  }
+
+  /** Elige el resultado `index` (se resalta más) y va a su spread. */
+  public showSearchResult(
+    index: number,
+    options: { animate?: boolean } = {},
+  ): Promise<void> {
+    const match = this.results.matches[index]
+    if (!match) return this.refuse('out-of-range')
+    if (this.flip.active || this.riffle.active || this.cover.anim) {
+      return this.refuse('blocked')
+    }
+    const previous = this.results.matches[this.results.index]
+    this.results.index = index
+    const keys = [pageKey(match.spread, match.side)]
+    if (previous) keys.push(pageKey(previous.spread, previous.side))
+    this.refreshHighlights(keys)
+    this.searchChanged()
+    return this.goToSpread(match.spread, options)
+  }
+
+  /** Pasa al resultado siguiente (o anterior) y vuelve al principio al final. */
+  public nextSearchResult(
+    dir: 1 | -1 = 1,
+    options: { animate?: boolean } = {},
+  ): Promise<void> {
+    const total = this.results.matches.length
+    if (!total) return this.refuse('out-of-range')
+    const { index } = this.results
+    const next =
+      index < 0 ? (dir === 1 ? 0 : total - 1) : (index + dir + total) % total
+    return this.showSearchResult(next, options)
+  }
+
+  private nextBookmarkId(): string {
+    let id: string
+    do id = `bm${++this.bookmarkSeq}`
+    while (this.bookmarks.some(b => b.id === id))
+    return id
+  }
+
+  private clampBookmarks(): void {
+    const last = this.store.count - 1
+    for (const b of this.bookmarks) {
+      b.spread = THREE.MathUtils.clamp(Math.round(b.spread), 0, last)
+    }
+  }
+
+  private bookmarksChanged(): void {
+    this.bookmarks.sort((a, b) => a.spread - b.spread)
+    this.syncRibbons()
+    this.events.emit('bookmarkchange', { bookmarks: this.listBookmarks() })
+  }
+
+  /**
+   * Coloca cada cinta sobre el recto del spread marcado: encima de la página
+   * visible, bajo las hojas de su bloque o, si esa hoja está girando, en el
+   * pivot del flip para que la hoja se la lleve.
+   */
+  private syncRibbons(): void {
+    for (const [id, ribbon] of this.ribbons) {
+      if (this.bookmarks.some(b => b.id === id)) continue
+      ribbon.removeFromParent()
+      ;(ribbon.material as THREE.Material).dispose()
+      this.ribbons.delete(id)
+    }
+
+    const flip = this.flip
+    this.bookmarks.forEach((bookmark, slot) => {
+      const ribbon =
+        this.ribbons.get(bookmark.id) ?? this.createRibbon(bookmark)
+      const s = bookmark.spread
+      // Separación desde el lomo para que no se pisen entre sí
+      const offset = 0.08 + (slot % 6) * 0.06
+      const top = this.pageH / 2 + this.coverPad * 0.6
+      const carried =
+        flip.active &&
+        flip.pivot &&
+        s === (flip.dir === 1 ? this.spreadIndex : flip.target)
+
+      if (carried && flip.pivot) {
+        // Encima de la hoja al avanzar; debajo (su recto) al retroceder
+        flip.pivot.add(ribbon)
+        ribbon.position.set(
+          flip.dir * offset,
+          top,
+          this.zEps * (flip.dir === 1 ? 12 : 8),
+        )
+      } else if (s === this.spreadIndex || (flip.active && s === flip.target)) {
+        // Sobre la página: se oculta con ella si el flip la tapa
+        const page = s === this.spreadIndex ? this.rightPage : this.underRight
+        page.add(ribbon)
+        ribbon.position.set(-this.pageW / 2 + offset, top, this.zEps)
+      } else {
+        const left = s < this.spreadIndex
+        ;(left ? this.surfaceL : this.surfaceR).add(ribbon)
+        ribbon.position.set(
+          (left ? -1 : 1) * (this.pageGap / 2 + offset),
+          top,
+          this.zEps * 0.5,
+        )
+      }
+    })
+  }
+
+  // Cantos y dorsos de papel, un punto más mates que la cara impresa
+  private edgeRoughness(): number {
+    return Math.min(1, this.theme.page.roughness + 0.03)
+  }
+
+  private createRibbon(bookmark: Bookmark): THREE.Mesh {
+    const ribbon = new THREE.Mesh(
+      this.ribbonGeom,
+      new THREE.MeshStandardMaterial({
+        color: new THREE.Color(bookmark.color ?? '#8c1d2c'),
+        roughness: 0.7,
+        metalness: 0,
+        side: THREE.DoubleSide,
+      }),
+    )
+    ribbon.name = `bookmark:${bookmark.id}`
+    this.ribbons.set(bookmark.id, ribbon)
+    return ribbon
+  }
+
+  private pagesOf(index: number): SpreadPages {
+    if (this.pageCount !== null) return pagesOfSpread(index, this.pageCount)
+    return { left: index * 2, right: index * 2 + 1 }
+  }
+
+  // Las comprobaciones que pueden lanzar van antes de aplazar la edición: una
+  // edición en cola no tiene a quién avisar
+  private edit(apply: () => void): void {
+    if (this.store.isLazy()) {
+      throw new Error('los spreads de un spreadProvider no se pueden editar')
+    }
+    const run = () => {
+      this.finishReveal(true)
+      this.endAnnotation()
+      // Los resultados apuntan a posiciones que pueden haber cambiado
+      this.clearSearch()
+      const before = JSON.stringify(this.bookmarks)
+      apply()
+      this.setSpread(this.spreadIndex)
+      if (JSON.stringify(this.bookmarks) !== before) this.bookmarksChanged()
+    }
+    if (this.flip.active || this.riffle.active) this.pendingEdits.push(run)
+    else run()
+  }
+
+  private flushEdits(): void {
+    for (const run of this.pendingEdits.splice(0)) run()
+  }
+
+  /**
+   * Va a cualquier spread. Sin animación salta directo; con `animate` hace un
+   * "riffle": varias hojas girando seguidas, más y más rápidas cuanto más lejos.
+   */
+  public goToSpread(
+    index: number,
+    options: { animate?: boolean } = {},
+  ): Promise<void> {
+    const target = Math.round(index)
+    if (this.flip.active || this.riffle.active || this.cover.anim) {
+      return this.refuse('blocked')
+    }
+    if (!(target >= 0 && target < this.store.count)) {
+      return this.refuse('out-of-range')
+    }
+    if (target === this.spreadIndex) return Promise.resolve()
+    // Saltar sin animar se permite con la tapa cerrada (p.ej. al restaurar)
+    if (!options.animate) {
+      this.setSpread(target)
+      return Promise.resolve()
+    }
+    if (!this.cover.open) return this.refuse('cover-closed')
+
+    const distance = Math.abs(target - this.spreadIndex)
+    const sheets = Math.min(distance, Math.ceil(Math.sqrt(distance) * 2), 8)
+    this.riffle.active = true
+    this.riffle.from = this.spreadIndex
+    this.riffle.target = target
+    this.riffle.sheets = sheets
+    this.riffle.step = 0
+    this.riffle.duration =
+      this.anim.riffle.duration * THREE.MathUtils.clamp(1 / sheets, 0.18, 1)
+    this.store.get(target)
+    this.events.emit('rifflestart', { from: this.spreadIndex, to: target })
+    this.riffleDone = deferred()
+    const done = this.riffleDone.promise
+    this.nextRiffleSheet()
+    return done
+  }
+
+  public isRiffleActive(): boolean {
+    return this.riffle.active
+  }
+
+  private nextRiffleSheet(): boolean {
+    const r = this.riffle
+    if (!r.active) return false
+    if (this.spreadIndex === r.target) {
+      r.active = false
+      this.events.emit('riffleend', { from: r.from, to: r.target })
+      this.riffleDone?.resolve()
+      this.riffleDone = null
+      return false
+    }
+    r.step++
+    const dir = r.target > r.from ? 1 : -1
+    // Hojas repartidas a lo largo del trayecto; la última cae en el destino
+    const next = r.from + Math.round(((r.target - r.from) * r.step) / r.sheets)
+    if (!this.startFlip(dir, next)) {
+      r.active = false
+      this.riffleDone?.reject(new BookActionError('blocked'))
+      this.riffleDone = null
+      return false
+    }
+    this.animateFlipTo(1, {
+      duration: r.duration,
+      easing: this.anim.riffle.easing,
+    })
+    return true
+  }
+
+  private blockReason(nextIndex: number): BookActionReason | null {
+    if (this.flip.active || this.riffle.active || this.cover.anim) {
+      return 'blocked'
+    }
+    if (!this.cover.open) return 'cover-closed'
+    if (nextIndex < 0 || nextIndex >= this.store.count) return 'out-of-range'
+    return null
+  }
+
+  private refuse(reason: BookActionReason): Promise<never> {
+    return Promise.reject(new BookActionError(reason))
   }
 
-  public flipPage(dir: 1 | -1): void {
-    if (!this.cover.open || this.cover.anim) return
-    if (this.flip.active) return
-    const nextIndex = this.spreadIndex + dir
-    if (nextIndex < 0 || nextIndex >= this.spreads.length) return
+  private startFlip(
+    dir: 1 | -1,
+    nextIndex: number = this.spreadIndex + dir,
+    manual = false,
+  ): boolean {
+    if (!this.cover.open || this.cover.anim) return false
+    if (this.flip.active) return false
+    if (nextIndex < 0 || nextIndex >= this.store.count) return false
+
+    // El spread que se deja queda escrito; el de destino asoma en blanco. En
+    // un riffle solo el destino final: las hojas intermedias pasan escritas
+    this.finishReveal(true)
+    this.endAnnotation()
+    if (!this.riffle.active || nextIndex === this.riffle.target) {
+      this.prepareReveal(nextIndex)
+    }
 
     this.flip.active = true
     this.flip.dir = dir
-    this.flip.t0 = performance.now() / 1000
+    this.flip.manual = manual
+    this.flip.progress = 0
+    this.flip.velocity = 0
+    this.flip.target = nextIndex
 
     if (dir === 1) {
       // Avanzar
@@ -474,7 +1446,7 @@ export class Book {
       this.flip.otherWasVisible = this.leftPage.visible
 
       this.underRight.visible = true
-      const nextSpread = this.spreads[nextIndex]
+      const nextSpread = this.spreadAt(nextIndex)
       this.underMatR.map = nextSpread.right
       this.underMatR.needsUpdate = true
       this.flip.under = this.underRight
@@ -483,22 +1455,19 @@ export class Book {
       this.flip.hidden = this.rightPage
       this.flip.pivot = this.pivotR
       this.pivotR.rotation.y = 0
+      bendTurnGeometry(this.geoTurnR, 1, 0, this.config.pageCurl)
 
       const frontTex = this.rightMat.map
-      const backTexSource = nextSpread.left
-      const backTex = this.getFlippedTex(
-        backTexSource,
-        `flip:${nextIndex}:left`,
-      )
+      const backTex = this.backTexFor(nextIndex, 'left')
 
       const frontMat = new THREE.MeshStandardMaterial({
-        roughness: 0.95,
+        roughness: this.theme.page.roughness,
         metalness: 0,
         side: THREE.FrontSide,
         map: frontTex,
       })
       const backMat = new THREE.MeshStandardMaterial({
-        roughness: 0.95,
+        roughness: this.theme.page.roughness,
         metalness: 0,
         side: THREE.BackSide,
         map: backTex,
@@ -518,7 +1487,7 @@ export class Book {
       this.flip.otherWasVisible = this.rightPage.visible
 
       this.underLeft.visible = true
-      const nextSpread = this.spreads[nextIndex]
+      const nextSpread = this.spreadAt(nextIndex)
       this.underMatL.map = nextSpread.left
       this.underMatL.needsUpdate = true
       this.flip.under = this.underLeft
@@ -527,22 +1496,19 @@ export class Book {
       this.flip.hidden = this.leftPage
       this.flip.pivot = this.pivotL
       this.pivotL.rotation.y = 0
+      bendTurnGeometry(this.geoTurnL, -1, 0, this.config.pageCurl)
 
       const frontTex = this.leftMat.map
-      const backTexSource = nextSpread.right
-      const backTex = this.getFlippedTex(
-        backTexSource,
-        `flip:${nextIndex}:right`,
-      )
+      const backTex = this.backTexFor(nextIndex, 'right')
 
       const frontMat = new THREE.MeshStandardMaterial({
-        roughness: 0.95,
+        roughness: this.theme.page.roughness,
         metalness: 0,
         side: THREE.FrontSide,
         map: frontTex,
       })
       const backMat = new THREE.MeshStandardMaterial({
-        roughness: 0.95,
+        roughness: this.theme.page.roughness,
         metalness: 0,
         side: THREE.BackSide,
         map: backTex,
@@ -557,17 +1523,199 @@ export class Book {
 
       this.pivotL.add(this.flip.frontMesh, this.flip.backMesh)
     }
+
+    this.syncRibbons()
+    this.events.emit('flipstart', {
+      from: this.spreadIndex,
+      to: nextIndex,
+      dir,
+      manual,
+    })
+    return true
+  }
+
+  private animateFlipTo(
+    target: 0 | 1,
+    curve: ResolvedAnimation = this.anim.flip,
+  ): void {
+    this.flip.from = this.flip.progress
+    this.flip.to = target
+    this.flip.t0 = this.time
+    this.flip.duration = curve.duration * Math.abs(target - this.flip.from)
+    this.flip.easing = curve.easing
   }
 
-  public update(_deltaTime: number): void {
-    const easeInOut = (x: number) =>
-      x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2
+  private applyFlipProgress(k: number): void {
+    if (!this.flip.pivot) return
+    this.flip.progress = k
 
+    if (this.flip.other)
+      this.flip.other.visible =
+        k <= this.anim.flip.hideOppositeAt ? this.flip.otherWasVisible : false
+
+    this.flip.pivot.rotation.y = (this.flip.dir === 1 ? -Math.PI : Math.PI) * k
+    this.updatePageBlocks(
+      THREE.MathUtils.lerp(this.spreadIndex, this.flip.target, k),
+    )
+    // La hoja pasa de la cara superior de un bloque a la del otro
+    const [own, other] =
+      this.flip.dir === 1
+        ? [this.surfaceR, this.surfaceL]
+        : [this.surfaceL, this.surfaceR]
+    this.flip.pivot.position.z = (other.position.z - own.position.z) * k
+    if (this.flip.dir === 1)
+      bendTurnGeometry(this.geoTurnR, 1, k, this.config.pageCurl)
+    else bendTurnGeometry(this.geoTurnL, -1, k, this.config.pageCurl)
+
+    this.events.emit('flipprogress', { ...this.flipEvent(), progress: k })
+  }
+
+  /**
+   * Reparte el grosor de las hojas según lo leído. `position` es el spread
+   * actual, fraccionario durante un flip.
+   */
+  private updatePageBlocks(position: number = this.spreadIndex): void {
+    const last = this.store.count - 1
+    const read = last > 0 ? THREE.MathUtils.clamp(position / last, 0, 1) : 0.5
+    // pageBlockThickness es el grosor de cada lado a mitad de libro
+    const total = this.pageBlockT * 2
+    const min = this.pageBlockT * 0.08
+    const left = THREE.MathUtils.lerp(min, total - min, read)
+    this.setPageBlock(this.pageBlockL, this.surfaceL, left)
+    this.setPageBlock(this.pageBlockR, this.surfaceR, total - left)
+  }
+
+  // El bloque apoya siempre sobre la tapa; solo sube o baja su cara superior
+  private setPageBlock(
+    block: THREE.Mesh,
+    surface: THREE.Group,
+    thickness: number,
+  ): void {
+    block.scale.z = thickness
+    block.position.z = -this.pageBlockT + thickness / 2
+    surface.position.z = thickness - this.pageBlockT
+  }
+
+  private flipEvent(): BookEventMap['flipend'] {
+    return {
+      from: this.spreadIndex,
+      to: this.flip.target,
+      dir: this.flip.dir === -1 ? -1 : 1,
+    }
+  }
+
+  /** Zona interactiva de la página bajo el rayo (en mundo), si la hay. */
+  public regionAt(ray: THREE.Ray): BookRegionHit | null {
+    if (!this.cover.open || this.cover.anim || this.flip.active) return null
+    this.raycaster.ray.copy(ray)
+    const [hit] = this.raycaster.intersectObjects(
+      [this.leftPage, this.rightPage],
+      false,
+    )
+    if (!hit?.uv) return null
+    const side = hit.object === this.leftPage ? 'left' : 'right'
+    const map = (side === 'left' ? this.leftMat : this.rightMat).map
+    const region = map ? regionAtUV(map, hit.uv) : null
+    return region ? { region, side, spread: this.spreadIndex } : null
+  }
+
+  /**
+   * Activa la zona bajo el rayo: emite 'regionactivate' y, si es un enlace,
+   * va a su destino. Devuelve false si no había zona (el click es del host).
+   */
+  public activateRegion(ray: THREE.Ray): boolean {
+    const hit = this.regionAt(ray)
+    if (!hit) return false
+    this.events.emit('regionactivate', hit)
+    const { action } = hit.region
+    if (action.type === 'link') {
+      const go =
+        action.target === 'page'
+          ? this.goToPage(action.index, { animate: true })
+          : this.goToSpread(action.index, { animate: true })
+      // Un enlace que no se puede seguir ahora (p.ej. en pleno giro) no hace
+      // nada, como un click bloqueado
+      go.catch((err: unknown) => {
+        if (!(err instanceof BookActionError)) throw err
+      })
+    }
+    return true
+  }
+
+  private rayToLocalX(ray: THREE.Ray, side: 1 | -1): number | null {
+    this.group.updateMatrixWorld()
+    const local = ray
+      .clone()
+      .applyMatrix4(this.group.matrixWorld.clone().invert())
+    const hit = local.intersectPlane(
+      // Plano de la página agarrada (sube y baja con su bloque)
+      new THREE.Plane(
+        new THREE.Vector3(0, 0, 1),
+        -(side === 1 ? this.surfaceR : this.surfaceL).position.z,
+      ),
+      new THREE.Vector3(),
+    )
+    return hit ? hit.x : null
+  }
+
+  /**
+   * Avanza las animaciones. El tiempo del libro solo corre con `deltaTime`
+   * (segundos) o, si se inyectó `clock` en la config, con lo que marque ese
+   * reloj; en pausa no avanza pero la pose se sigue aplicando.
+   */
+  public update(deltaTime: number): void {
+    let dt = deltaTime
+    if (this.config.clock) {
+      const now = this.config.clock()
+      dt = this.lastClock === null ? 0 : now - this.lastClock
+      this.lastClock = now
+    }
+    if (!this.paused) this.time += Math.max(0, dt) * this.timeScale
+    this.animate()
+  }
+
+  /** Avanza exactamente `seconds` de tiempo del libro, aunque esté en pausa. */
+  public step(seconds: number): void {
+    this.time += Math.max(0, seconds)
+    this.animate()
+  }
+
+  public pause(): void {
+    this.paused = true
+  }
+
+  public resume(): void {
+    this.paused = false
+  }
+
+  public isPaused(): boolean {
+    return this.paused
+  }
+
+  public setTimeScale(scale: number): void {
+    this.timeScale = Math.max(0, scale)
+  }
+
+  public getTimeScale(): number {
+    return this.timeScale
+  }
+
+  private animate(): void {
     // Animación de portada
     if (this.cover.anim) {
-      const now = performance.now() / 1000
-      const u = Math.min(1, (now - this.cover.t0) / this.speeds.cover)
-      const k = easeInOut(u)
+      const { duration, easing, overshoot, settle } = this.anim.cover
+      const t = this.time - this.cover.t0
+      const u = duration > 0 ? Math.min(1, t / duration) : 1
+      let k = easing(u)
+
+      // Rebote al aterrizar: se separa un poco del destino y se asienta
+      const s =
+        overshoot > 0 && settle > 0
+          ? THREE.MathUtils.clamp((t - duration) / settle, 0, 1)
+          : 1
+      if (u >= 1 && s < 1) {
+        k = 1 - overshoot * Math.abs(Math.sin(2 * Math.PI * s)) * (1 - s) ** 2
+      }
       const a = this.cover.open ? k : 1 - k
 
       if (this.cover.leftPivot && this.cover.rightPivot) {
@@ -593,7 +1741,10 @@ export class Book {
         this.underRight.visible = false
       }
 
-      if (u >= 1) this.cover.anim = false
+      if (u >= 1 && s >= 1) {
+        this.cover.anim = false
+        this.finishCover()
+      }
     } else {
       if (this.cover.leftPivot && this.cover.rightPivot) {
         this.cover.leftPivot.rotation.y = this.cover.open
@@ -617,53 +1768,339 @@ export class Book {
     }
 
     // Animación de flip
-    if (this.flip.active && this.flip.pivot) {
-      const now = performance.now() / 1000
-      const u = Math.min(1, (now - this.flip.t0) / this.speeds.flip)
-      const k = easeInOut(u)
+    // (un flip arrastrado se mueve con setFlipProgress, no con el tiempo)
+    if (this.flip.active && this.flip.pivot && !this.flip.manual) {
+      const u =
+        this.flip.duration > 0
+          ? Math.min(1, (this.time - this.flip.t0) / this.flip.duration)
+          : 1
+      const k = this.flip.easing(u)
+      this.applyFlipProgress(
+        THREE.MathUtils.lerp(this.flip.from, this.flip.to, k),
+      )
+      if (u >= 1) {
+        if (this.flip.to === 1) this.endFlip()
+        else this.cancelFlip()
+      }
+    }
 
-      if (this.flip.other)
-        this.flip.other.visible = k <= 0.55 ? this.flip.otherWasVisible : false
+    // Revelado de tinta: empieza cuando la tapa está abierta y quieta
+    if (this.reveal.index !== null && this.cover.open && !this.cover.anim) {
+      if (this.reveal.t0 === null) {
+        this.reveal.t0 = this.time
+        this.events.emit('revealstart', { index: this.reveal.index })
+      }
+      const { duration, easing } = this.anim.reveal
+      const u =
+        duration > 0 ? Math.min(1, (this.time - this.reveal.t0) / duration) : 1
+      // Las páginas se escriben una tras otra, en orden de lectura
+      const k = easing(u) * this.reveal.textures.length
+      this.reveal.textures.forEach((tex, i) =>
+        setPageReveal(tex, THREE.MathUtils.clamp(k - i, 0, 1)),
+      )
+      if (u >= 1) this.finishReveal(false)
+    }
+  }
 
-      this.flip.pivot.rotation.y =
-        (this.flip.dir === 1 ? -Math.PI : Math.PI) * k
-      if (u >= 1) this.endFlip()
+  private static resolveAnimations(speeds: BookAnimationSpeeds): Book['anim'] {
+    const cover = typeof speeds.cover === 'object' ? speeds.cover : {}
+    const flip = typeof speeds.flip === 'object' ? speeds.flip : {}
+    const flipAnim = resolveAnimation(speeds.flip, 1.2, 'easeInOutCubic')
+    return {
+      cover: {
+        ...resolveAnimation(speeds.cover, 1.6, 'easeInOutCubic'),
+        overshoot: Math.max(0, cover.overshoot ?? 0),
+        settle: Math.max(0, cover.settle ?? 0.35),
+      },
+      flip: {
+        ...flipAnim,
+        hideOppositeAt: THREE.MathUtils.clamp(
+          flip.hideOppositeAt ?? 0.55,
+          0,
+          1,
+        ),
+      },
+      riffle: resolveAnimation(
+        speeds.riffle,
+        flipAnim.duration,
+        'easeInOutSine',
+      ),
+      release: resolveAnimation(
+        speeds.release,
+        flipAnim.duration,
+        'easeOutCubic',
+      ),
+      reveal: resolveAnimation(speeds.reveal, 3, 'linear'),
     }
   }
 
   private validateConfig(): void {
-    if (!Array.isArray(this.spreads) || this.spreads.length === 0) {
+    const { spreads, pages, spreadProvider } = this.config
+    if (spreadProvider) {
+      if (
+        !(spreadProvider.count >= 1) ||
+        typeof spreadProvider.getSpread !== 'function'
+      ) {
+        throw new Error(
+          'spreadProvider debe tener count >= 1 y una función getSpread',
+        )
+      }
+      return
+    }
+    if (pages) {
+      this.assertPages(pages)
+      return
+    }
+    if (!Array.isArray(spreads) || spreads.length === 0) {
       throw new Error('spreads debe tener al menos 1 spread')
     }
-    if (
-      !this.spreads.every(
-        s =>
-          s.left instanceof THREE.Texture && s.right instanceof THREE.Texture,
-      )
-    ) {
+    spreads.forEach(s => this.assertSpread(s))
+  }
+
+  private assertPages(pages: THREE.Texture[]): void {
+    if (!Array.isArray(pages) || pages.length === 0) {
+      throw new Error('pages debe tener al menos 1 página')
+    }
+    if (!pages.every(p => p instanceof THREE.Texture)) {
+      throw new Error('cada página debe ser una THREE.Texture')
+    }
+  }
+
+  private assertSpread(s: Spread): void {
+    if (!(
+      s?.left instanceof THREE.Texture && s?.right instanceof THREE.Texture
+    )) {
       throw new Error('cada spread debe tener left y right como THREE.Texture')
     }
   }
 
   private setSpread(i: number): void {
-    this.spreadIndex = THREE.MathUtils.clamp(i, 0, this.spreads.length - 1)
+    this.spreadIndex = THREE.MathUtils.clamp(i, 0, this.store.count - 1)
+    this.applySpreadMaps()
+    this.updatePageBlocks()
+    // Al terminar un flip se recolocan tras resetear su estado
+    if (!this.flip.active) this.syncRibbons()
+
+    if (this.pageInfo) {
+      this.pageInfo.textContent =
+        this.pageCount === null
+          ? `Spread ${this.spreadIndex + 1} / ${this.store.count}`
+          : this.pageLabel()
+    }
+
+    this.callbacks?.onSpreadChange?.(this.spreadIndex, this.store.count)
+    this.events.emit('spreadchange', {
+      index: this.spreadIndex,
+      total: this.store.count,
+    })
+    this.store.retain(
+      this.spreadIndex,
+      this.riffle.active ? [this.riffle.target] : [],
+    )
+    this.startReveal()
+  }
 
-    const spread = this.spreads[this.spreadIndex]
+  private pageLabel(): string {
+    const shown = Object.values(this.getVisiblePages())
+      .filter((p): p is number => p !== null)
+      .map(p => p + 1)
+    return `Pág. ${shown.join('-') || '-'} / ${this.pageCount}`
+  }
+
+  private applySpreadMaps(): void {
+    const spread = this.spreadAt(this.spreadIndex)
     this.leftMat.map = spread.left
     this.rightMat.map = spread.right
     this.leftMat.needsUpdate = true
     this.rightMat.needsUpdate = true
+  }
 
-    if (this.pageInfo) {
-      this.pageInfo.textContent = `Spread ${this.spreadIndex + 1} / ${
-        this.spreads.length
-      }`
+  // Spread listo para pintar: papel en blanco mientras se está generando
+  private spreadAt(i: number): Spread {
+    return this.loadedSpread(i) ?? { left: this.paperTex, right: this.paperTex }
+  }
+
+  // Spread del store con sus anotaciones y resaltados al día
+  private loadedSpread(index: number): Spread | null {
+    const spread = this.store.get(index)
+    if (spread) this.decorateSpread(index, spread)
+    return spread
+  }
+
+  private decorateSpread(index: number, spread: Spread): void {
+    for (const side of ['left', 'right'] as const) {
+      const tex = spread[side]
+      if (tex === this.paperTex) continue
+      if (!this.watchedTextures.has(tex)) {
+        this.watchedTextures.add(tex)
+        this.watchAssets(tex)
+      }
+      const key = pageKey(index, side)
+      setPageAnnotations(tex, this.annotations.get(key) ?? NO_STROKES)
+      setPageHighlights(tex, this.highlights.get(key) ?? NO_HIGHLIGHTS)
     }
+  }
+
+  // Las imágenes que no cargan se avisan con 'error'
+  private watchAssets(tex: THREE.Texture): void {
+    textureAssetsReady(tex).catch((error: unknown) =>
+      this.events.emit('error', { source: 'image', error }),
+    )
+  }
+
+  // Redibuja trazos y resaltados de un spread si ya está cargado; si no, se
+  // pondrán al pedirlo
+  private applyDecorations(index: number): void {
+    const spread = this.store.peek(index)
+    if (spread) this.decorateSpread(index, spread)
+  }
 
-    this.callbacks?.onSpreadChange?.(this.spreadIndex, this.spreads.length)
+  private backTexFor(index: number, side: 'left' | 'right'): THREE.Texture {
+    const spread = this.loadedSpread(index)
+    // El papel es simétrico: no hace falta voltearlo ni cachearlo
+    if (!spread || spread[side] === this.paperTex) return this.paperTex
+    return this.getFlippedTex(spread[side])
+  }
+
+  private onSpreadLoaded(index: number): void {
+    if (index === this.spreadIndex) {
+      this.applySpreadMaps()
+      this.startReveal()
+      const front = this.flip.frontMesh?.material as
+        THREE.MeshStandardMaterial | undefined
+      if (front) {
+        front.map = this.flip.dir === 1 ? this.rightMat.map : this.leftMat.map
+        front.needsUpdate = true
+      }
+    }
+
+    if (this.flip.active && index === this.flip.target) {
+      const spread = this.spreadAt(index)
+      const under = this.flip.dir === 1 ? this.underMatR : this.underMatL
+      under.map = this.flip.dir === 1 ? spread.right : spread.left
+      under.needsUpdate = true
+      const back = this.flip.backMesh?.material as
+        THREE.MeshStandardMaterial | undefined
+      if (back) {
+        back.map = this.backTexFor(
+          index,
+          this.flip.dir === 1 ? 'left' : 'right',
+        )
+        back.needsUpdate = true
+      }
+    }
+  }
+
+  private onSpreadEvicted(_index: number, spread: Spread): void {
+    // Las texturas de un provider son del Book; el papel viene de config
+    for (const tex of [spread.left, spread.right]) {
+      if (tex !== this.paperTex) tex.dispose()
+    }
+    this.releaseFlipped(spread)
+  }
+
+  // Deja en blanco las páginas con inkReveal de un spread aún no revelado
+  private prepareReveal(index: number): THREE.Texture[] {
+    const spread = this.store.get(index)
+    if (!spread || this.revealed.has(index)) return []
+    return [spread.left, spread.right].filter(
+      tex => tex !== this.paperTex && setPageReveal(tex, 0),
+    )
+  }
+
+  // Deshace prepareReveal en un destino al que al final no se llega
+  private cancelReveal(index: number): void {
+    const spread = this.store.peek(index)
+    if (!spread || this.revealed.has(index)) return
+    for (const tex of [spread.left, spread.right]) {
+      if (tex !== this.paperTex) setPageReveal(tex, 1)
+    }
+  }
+
+  private startReveal(): void {
+    const index = this.spreadIndex
+    if (this.reveal.index === index) return
+    this.finishReveal(true)
+    // Las hojas intermedias de un riffle solo pasan
+    if (this.riffle.active && index !== this.riffle.target) return
+    const textures = this.prepareReveal(index)
+    if (!textures.length) return
+    this.reveal.index = index
+    this.reveal.t0 = null
+    this.reveal.textures = textures
+  }
+
+  private finishReveal(skipped: boolean): void {
+    const { index, t0, textures } = this.reveal
+    if (index === null) return
+    textures.forEach(tex => setPageReveal(tex, 1))
+    this.reveal.index = null
+    this.reveal.t0 = null
+    this.reveal.textures = []
+    // Si ni siquiera empezó (tapa cerrada), se repetirá la próxima vez
+    if (t0 === null) return
+    this.revealed.add(index)
+    this.events.emit('revealend', { index, skipped })
+  }
+
+  private shiftRevealed(from: number, delta: number): void {
+    const shifted = [...this.revealed].map(i => (i >= from ? i + delta : i))
+    this.revealed.clear()
+    shifted.forEach(i => this.revealed.add(i))
+  }
+
+  // Rehace los resaltados de esas páginas (claves de pageKey)
+  private refreshHighlights(keys: Iterable<string>): void {
+    const spreads = new Set<number>()
+    for (const key of keys) {
+      const list: TextHighlight[] = []
+      this.results.matches.forEach(({ field, block, start, end, ...m }, i) => {
+        if (pageKey(m.spread, m.side) !== key) return
+        const active = i === this.results.index
+        list.push({ field, block, start, end, active })
+      })
+      if (list.length) this.highlights.set(key, list)
+      else this.highlights.delete(key)
+      spreads.add(Number(key.split(':')[0]))
+    }
+    spreads.forEach(i => this.applyDecorations(i))
+  }
+
+  private searchChanged(): void {
+    const { matches, index } = this.results
+    this.events.emit('searchchange', {
+      index,
+      total: matches.length,
+      match: matches[index] ? { ...matches[index] } : null,
+    })
+  }
+
+  private shiftAnnotations(from: number, delta: number): void {
+    const shifted = [...this.annotations].map(([key, strokes]) => {
+      const [spread, side] = key.split(':')
+      const i = Number(spread)
+      return [`${i >= from ? i + delta : i}:${side}`, strokes] as const
+    })
+    this.annotations.clear()
+    shifted.forEach(([key, strokes]) => this.annotations.set(key, strokes))
+  }
+
+  private finishCover(): void {
+    const open = this.cover.open
+    this.events.emit(open ? 'coveropenend' : 'covercloseend', { open })
+    this.callbacks?.onCoverToggle?.(open)
+    this.coverDone?.resolve()
+    this.coverDone = null
+  }
+
+  private settleFlip(turned: boolean): void {
+    const done = this.flipDone
+    this.flipDone = null
+    done?.resolve(turned)
   }
 
   private endFlip(): void {
+    const event = this.flipEvent()
     const otherToRestore = this.flip.other
     if (otherToRestore) otherToRestore.visible = false
 
@@ -671,15 +2108,43 @@ export class Book {
     if (toReveal) toReveal.visible = false
 
     this.cleanupFlipMeshes()
-    this.setSpread(this.spreadIndex + this.flip.dir)
+    this.setSpread(this.flip.target)
 
     if (toReveal) toReveal.visible = true
     if (otherToRestore) otherToRestore.visible = true
 
+    this.resetFlipState()
+    this.syncRibbons()
+    this.events.emit('flipend', event)
+    this.settleFlip(true)
+    if (this.nextRiffleSheet()) return
+    this.flushEdits()
+  }
+
+  private cancelFlip(): void {
+    const event = this.flipEvent()
+    const toReveal = this.flip.hidden
+    this.cleanupFlipMeshes()
+    if (toReveal) toReveal.visible = true
+    if (this.flip.pivot) this.flip.pivot.rotation.y = 0
+    this.cancelReveal(event.to)
+    this.resetFlipState()
+    this.updatePageBlocks()
+    this.syncRibbons()
+    this.events.emit('flipcancel', event)
+    this.settleFlip(false)
+    this.flushEdits()
+  }
+
+  private resetFlipState(): void {
     this.flip.active = false
     this.flip.dir = 0
+    if (this.flip.pivot) this.flip.pivot.position.z = 0
     this.flip.pivot = null
     this.flip.hidden = null
+    this.flip.manual = false
+    this.flip.progress = 0
+    this.flip.velocity = 0
   }
 
   private cleanupFlipMeshes(): void {
@@ -706,13 +2171,20 @@ export class Book {
     this.flip.otherWasVisible = true
   }
 
-  private getFlippedTex(tex: THREE.Texture, cacheId: string): THREE.Texture {
-    if (this.flippedCache.has(cacheId)) return this.flippedCache.get(cacheId)!
+  private getFlippedTex(tex: THREE.Texture): THREE.Texture {
+    if (this.flippedCache.has(tex)) return this.flippedCache.get(tex)!
     const t = this.cloneFlipX(tex)
-    this.flippedCache.set(cacheId, t)
+    this.flippedCache.set(tex, t)
     return t
   }
 
+  private releaseFlipped(spread: Spread): void {
+    for (const tex of [spread.left, spread.right]) {
+      this.flippedCache.get(tex)?.dispose()
+      this.flippedCache.delete(tex)
+    }
+  }
+
   private cloneFlipX(tex: THREE.Texture): THREE.Texture {
     const t = tex.clone()
     t.repeat.set(-1, 1)
@@ -724,12 +2196,19 @@ export class Book {
   public dispose(): void {
     // 1) Detener/cancelar flip primero (evita meshes colgados)
     this.cleanupFlipMeshes()
+    for (const done of [this.coverDone, this.flipDone, this.riffleDone]) {
+      done?.reject(new BookActionError('cancelled'))
+    }
+    this.coverDone = this.flipDone = this.riffleDone = null
+    this.events.clear()
 
     // 2) Limpiar materiales de portada
     this.coverMatFront.dispose()
     this.coverMatBack.dispose()
     this.coverSideMat.dispose()
     this.coverInnerMat.dispose()
+    this.spineMat.dispose()
+    this.spineOuterMat.dispose()
 
     // 3) Limpiar materiales de páginas
     this.leftMat.dispose()
@@ -741,10 +2220,13 @@ export class Book {
     this.backPaperMatR.dispose()
 
     // 4) Limpiar texturas propias (clonadas por el Book)
-    // NOTA: NO disponemos paperTexture ni spreads porque vienen de config (no son del Book)
+    // NOTA: NO disponemos paperTexture, spineTexture, spreads ni pages porque vienen de config (no son del Book)
     this.coverTexFront.dispose()
     this.coverTexBack.dispose()
 
+    // Las del spreadProvider sí son del Book (con un array fijo no hace nada)
+    this.store.dispose()
+
     // 5) Limpiar cache de texturas volteadas (estas sí son del Book)
     this.flippedCache.forEach(tex => tex.dispose())
     this.flippedCache.clear()
@@ -752,8 +2234,15 @@ export class Book {
     // 6) Limpiar geometrías propias del Book
     this.geoTurnR.dispose()
     this.geoTurnL.dispose()
+    this.ribbonGeom.dispose()
+    this.ribbons.forEach(ribbon => {
+      ribbon.removeFromParent()
+      ;(ribbon.material as THREE.Material).dispose()
+    })
+    this.ribbons.clear()
     this.coverGeom.dispose()
     this.pagesGeom.dispose()
+    this.spineGeom.dispose()
     this.pagePlaneGeom.dispose()
     this.backPlaneGeom.dispose()
 
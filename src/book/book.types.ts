@@ -1,10 +1,49 @@
 import * as THREE from 'three'
+import type { EasingFunction, EasingName } from './easing'
+import type { PageRegion } from './page-regions'
+import type { BookTheme } from './themes'
+import type { PageAnnotations } from './annotations'
+import type { SearchMatch } from './search'
 
 export interface Spread {
   left: THREE.Texture
   right: THREE.Texture
 }
 
+// Fuente perezosa de spreads: el Book solo pide los cercanos al actual
+export interface SpreadProvider {
+  count: number
+  // Si los spreads siguen el reparto de BookConfig.pages, cuántas páginas hay
+  pages?: number
+  getSpread: (index: number) => Spread | Promise<Spread>
+}
+
+// Marcador serializable (JSON): el host puede guardarlo y devolverlo en config
+export interface Bookmark {
+  id: string
+  spread: number
+  label?: string
+  // Color CSS de la cinta
+  color?: string
+}
+
+// Estado de lectura serializable (JSON) de exportState/importState
+export interface BookState {
+  version: 1
+  spread: number
+  coverOpen: boolean
+  bookmarks: Bookmark[]
+  // Spreads cuyo revelado de tinta ya se vio
+  revealed?: number[]
+  // Trazos a mano sobre las páginas
+  annotations?: PageAnnotations[]
+}
+
+export interface BookmarkOptions {
+  label?: string
+  color?: string
+}
+
 export interface BookDimensions {
   pageWidth?: number
   pageHeight?: number
@@ -15,23 +54,117 @@ export interface BookDimensions {
   coverPadding?: number
 }
 
+export interface ActionAnimation {
+  // Segundos del recorrido completo
+  duration?: number
+  easing?: EasingName | EasingFunction
+}
+
+export interface CoverAnimation extends ActionAnimation {
+  // Rebote al aterrizar: fracción del recorrido que se separa y segundos que
+  // tarda en asentarse
+  overshoot?: number
+  settle?: number
+}
+
+export interface FlipAnimation extends ActionAnimation {
+  // Progreso (0..1) a partir del cual se oculta la página de enfrente
+  hideOppositeAt?: number
+}
+
+// Un número es solo la duración (compatible con la forma anterior)
 export interface BookAnimationSpeeds {
-  cover?: number
-  flip?: number
+  cover?: number | CoverAnimation
+  flip?: number | FlipAnimation
+  // Cada hoja del riffle de goToSpread (se acelera con la distancia)
+  riffle?: number | ActionAnimation
+  // Lo que falta de un flip arrastrado al soltarlo
+  release?: number | ActionAnimation
+  // Revelado de tinta de las páginas con inkReveal, por spread completo
+  reveal?: number | ActionAnimation
 }
 
 export interface BookConfig {
   frontCoverTexture: THREE.Texture
   backCoverTexture: THREE.Texture
   paperTexture: THREE.Texture
-  spreads: Spread[]
+  // Cara exterior del lomo (ver makeSpineTexture)
+  spineTexture?: THREE.Texture
+  // Uno de los tres: spreads ya generados, un provider perezoso o una lista
+  // plana de páginas (la 1.ª abre sola a la derecha, como un libro real). Los
+  // spreads de makeSpreads o spreadsFromPages conservan la numeración de páginas
+  spreads?: Spread[]
+  pages?: THREE.Texture[]
+  spreadProvider?: SpreadProvider
+  // Con spreadProvider: spreads a cada lado del actual que se piden por
+  // adelantado y máximo de spreads cargados (el resto se libera por LRU)
+  spreadWindow?: number
+  maxLoadedSpreads?: number
   dimensions?: BookDimensions
   speeds?: BookAnimationSpeeds
   initialSpreadIndex?: number
+  // Por defecto el libro empieza abierto
+  initialCoverOpen?: boolean
+  bookmarks?: Bookmark[]
   pageInfoElementId?: string
+  // Curvatura extra (radianes) del canto exterior a mitad de giro; 0 = hoja rígida
+  pageCurl?: number
+  // Colores y rugosidad de tapas, lomo y cantos (las texturas traen su propio tema)
+  theme?: BookTheme
+  // Reloj en segundos; si se da, update() lo usa en lugar de su deltaTime
+  clock?: () => number
 }
 
 export interface BookCallbacks {
   onSpreadChange?: (index: number, total: number) => void
+  // Se llama al terminar la animación de la tapa
   onCoverToggle?: (isOpen: boolean) => void
 }
+
+export interface BookFlipEvent {
+  from: number
+  to: number
+  dir: 1 | -1
+}
+
+// Fallo que no llega a nadie como rechazo de una acción: el Book lo emite
+// como 'error' y el host decide si registrarlo o avisar
+export type BookErrorEvent =
+  // El spreadProvider lanzó o rechazó al generar `spread`
+  | { source: 'spread'; spread: number; error: unknown }
+  // Un listener de `event` lanzó (los demás se llamaron igual)
+  | { source: 'listener'; event: keyof BookEventMap; error: unknown }
+  // Una imagen de página no cargó; la página se dibujó sin ella
+  | { source: 'image'; error: unknown }
+
+export interface BookRegionHit {
+  region: PageRegion
+  side: 'left' | 'right'
+  spread: number
+}
+
+export interface BookEventMap {
+  flipstart: BookFlipEvent & { manual: boolean }
+  flipprogress: BookFlipEvent & { progress: number }
+  flipend: BookFlipEvent
+  // Un flip arrastrado que se soltó antes de tiempo y volvió atrás
+  flipcancel: BookFlipEvent
+  rifflestart: { from: number; to: number }
+  riffleend: { from: number; to: number }
+  spreadchange: { index: number; total: number }
+  bookmarkchange: { bookmarks: Bookmark[] }
+  // Click en una zona interactiva de una página (los enlaces ya navegan solos)
+  regionactivate: BookRegionHit
+  error: BookErrorEvent
+  coveropenstart: { open: boolean }
+  coveropenend: { open: boolean }
+  coverclosestart: { open: boolean }
+  covercloseend: { open: boolean }
+  revealstart: { index: number }
+  // `skipped`: se completó de golpe (click, flip o edición)
+  revealend: { index: number; skipped: boolean }
+  // Se terminó un trazo o se borraron los de un spread
+  annotationchange: { spread: number }
+  // Nuevos resultados de búsqueda o cambio del elegido (index -1 = ninguno)
+  searchchange: { index: number; total: number; match: SearchMatch | null }
+}
@@ -0,0 +1,37 @@
+export type EasingFunction = (t: number) => number
+
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic'
+  | 'easeInOutSine'
+  | 'easeOutBack'
+
+export const easings: Record<EasingName, EasingFunction> = {
+  linear: t => t,
+  easeInQuad: t => t * t,
+  easeOutQuad: t => 1 - (1 - t) * (1 - t),
+  easeInOutQuad: t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInCubic: t => t * t * t,
+  easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: t =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  easeInOutSine: t => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeOutBack: t => {
+    const c1 = 1.70158
+    const c3 = c1 + 1
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2)
+  },
+}
+
+export function resolveEasing(
+  easing: EasingName | EasingFunction | undefined,
+  fallback: EasingName,
+): EasingFunction {
+  if (typeof easing === 'function') return easing
+  return easings[easing ?? fallback] ?? easings[fallback]
+}
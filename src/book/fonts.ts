@@ -0,0 +1,69 @@
+export interface FontSource {
+  family: string
+  // URL del archivo (woff2, ttf...) o sus bytes ya descargados
+  source: string | ArrayBuffer
+  descriptors?: FontFaceDescriptors
+}
+
+// Fuentes registradas, por familia + variante; la carga se comparte
+const registry = new Map<string, Promise<FontFace>>()
+
+function fontKey(font: FontSource): string {
+  const { weight = 'normal', style = 'normal' } = font.descriptors ?? {}
+  return `${font.family}|${weight}|${style}`
+}
+
+/**
+ * Carga una fuente con la API FontFace y la añade a document.fonts. Registrar
+ * dos veces la misma familia y variante devuelve la misma carga. Si falla,
+ * la promesa se rechaza (avisar es cosa de quien la registra).
+ */
+export function registerFont(font: FontSource): Promise<FontFace> {
+  const key = fontKey(font)
+  let promise = registry.get(key)
+  if (!promise) {
+    const source =
+      typeof font.source === 'string' ? `url(${font.source})` : font.source
+    const face = new FontFace(font.family, source, font.descriptors)
+    document.fonts.add(face)
+    promise = face.load()
+    // Un fallo no se cachea: se puede volver a registrar
+    promise.catch(() => {
+      registry.delete(key)
+      document.fonts.delete(face)
+    })
+    registry.set(key, promise)
+  }
+  return promise
+}
+
+/** Espera a todas las fuentes registradas (las que fallan no bloquean). */
+export async function fontsReady(): Promise<void> {
+  await Promise.allSettled(registry.values())
+}
+
+/**
+ * Fuentes CSS (`bold 34px Familia`) que aún no se pueden dibujar. Las
+ * familias del sistema o sin @font-face cuentan como listas.
+ */
+export function pendingFonts(fonts: string[]): string[] {
+  return [...new Set(fonts)].filter(font => {
+    try {
+      return !document.fonts.check(font)
+    } catch {
+      return false
+    }
+  })
+}
+
+/** Pide a document.fonts las fuentes pendientes; resuelve cuando terminan. */
+export function loadFonts(fonts: string[]): Promise<unknown> {
+  return Promise.allSettled(fonts.map(font => document.fonts.load(font)))
+}
+
+// Variantes que usa el texto enriquecido de una familia
+export function fontVariants(family: string, size = 32): string[] {
+  return ['', 'bold ', 'italic ', 'italic bold '].map(
+    prefix => `${prefix}${size}px ${family}`,
+  )
+}
@@ -1,14 +1,103 @@
 export { Book } from './book'
+export { BookActionError } from './book-events'
+export { easings } from './easing'
+export type { EasingName, EasingFunction } from './easing'
+export type { BookActionReason, BookEventListener } from './book-events'
 export type {
   BookConfig,
   BookCallbacks,
   Spread,
+  SpreadProvider,
   BookDimensions,
   BookAnimationSpeeds,
+  ActionAnimation,
+  CoverAnimation,
+  FlipAnimation,
+  BookEventMap,
+  BookFlipEvent,
+  Bookmark,
+  BookmarkOptions,
+  BookState,
+  BookRegionHit,
+  BookErrorEvent,
 } from './book.types'
+export { parseLinkTarget, getPageRegions } from './page-regions'
+export type { PageRegion, PageRegionAction } from './page-regions'
 export {
   makePageTexture,
   makeCoverTexture,
+  makeSpineTexture,
   tuneCoverTexture,
+  redrawPageTexture,
+  setPageReveal,
+  setPageAnnotations,
+  setPageHighlights,
+  textureAssetsReady,
 } from './texture-generator'
-export type { PageContent, CoverContent } from './texture-generator'
+export type { PageContent, CoverContent, TocEntry } from './texture-generator'
+export { loadPageImage } from './page-images'
+export type {
+  PageImage,
+  PageImagePlacement,
+  PageImageSource,
+} from './page-images'
+export {
+  bookThemes,
+  DEFAULT_PAGE_THEME,
+  DEFAULT_COVER_THEME,
+  resolvePageTheme,
+  resolveCoverTheme,
+} from './themes'
+export type {
+  BookTheme,
+  PageTheme,
+  CoverTheme,
+  PageThemeInput,
+  CoverThemeInput,
+  PageOrnament,
+  CoverOrnament,
+} from './themes'
+export {
+  bookTextureFormats,
+  DEFAULT_BOOK_DIMENSIONS,
+  DEFAULT_PIXELS_PER_UNIT,
+} from './texture-format'
+export type { TextureFormat } from './texture-format'
+export type { InkRevealMode } from './ink-reveal'
+export { ANNOTATION_DEFAULTS, drawAnnotations } from './annotations'
+export type {
+  AnnotationTool,
+  AnnotationStroke,
+  AnnotationOptions,
+  PageAnnotations,
+} from './annotations'
+export { registerFont, fontsReady } from './fonts'
+export type { FontSource } from './fonts'
+export { createSearchIndex, normalizeSearchText } from './search'
+export type {
+  SearchIndex,
+  SearchMatch,
+  TextHighlight,
+  WordRange,
+} from './search'
+export { parseMarkup, serializeBlocks } from './rich-text'
+export type { TextBlock, InlineToken, RichTextStyle } from './rich-text'
+export {
+  paginate,
+  addTableOfContents,
+  makeSpreads,
+  createSpreadProvider,
+} from './paginator'
+export type {
+  DocumentSection,
+  PaginateOptions,
+  TableOfContentsOptions,
+} from './paginator'
+export {
+  spreadsFromPages,
+  spreadCountForPages,
+  pagesOfSpread,
+  spreadOfPage,
+  pageCountOfSpreads,
+} from './sheets'
+export type { SpreadPages } from './sheets'
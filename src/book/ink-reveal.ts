@@ -0,0 +1,103 @@
+import type { TextRect } from './rich-text'
+
+// 'line': cada línea aparece entera, fundiéndose; 'stroke': se escribe de
+// izquierda a derecha siguiendo la pluma
+export type InkRevealMode = 'line' | 'stroke'
+
+// Renglón que se escribe de una vez: caja de la línea y tramo con tinta
+export interface InkStroke {
+  x: number
+  width: number
+  top: number
+  height: number
+}
+
+// Lo que se ve en un instante del revelado
+export interface InkFrame {
+  // Zonas ya escritas del todo
+  done: TextRect[]
+  // Renglón en curso: su zona visible y la opacidad de la tinta
+  current: { rect: TextRect; alpha: number } | null
+  // Tinta fresca que todavía se corre
+  wet: TextRect | null
+}
+
+const WET_WIDTH = 56
+
+/**
+ * Reparte `progress` (0..1) entre los renglones según su longitud, para que
+ * la pluma avance a ritmo constante. Las zonas ocupan todo el ancho de la
+ * página para incluir viñetas y capitulares.
+ */
+export function inkFrame(
+  strokes: InkStroke[],
+  progress: number,
+  mode: InkRevealMode,
+  pageWidth: number,
+): InkFrame {
+  const total = strokes.reduce((sum, s) => sum + Math.max(1, s.width), 0)
+  let pos = Math.min(1, Math.max(0, progress)) * total
+  const frame: InkFrame = { done: [], current: null, wet: null }
+
+  for (const s of strokes) {
+    const len = Math.max(1, s.width)
+    const row = { x: 0, y: s.top, width: pageWidth, height: s.height }
+    if (pos >= len) {
+      frame.done.push(row)
+      pos -= len
+      continue
+    }
+    if (pos > 0) {
+      const f = pos / len
+      if (mode === 'line') {
+        frame.current = { rect: row, alpha: f }
+        frame.wet = row
+      } else {
+        const pen = s.x + s.width * f
+        frame.current = { rect: { ...row, width: pen }, alpha: 1 }
+        frame.wet = {
+          x: Math.max(s.x, pen - WET_WIDTH),
+          y: s.top,
+          width: Math.min(WET_WIDTH, pen - s.x),
+          height: s.height,
+        }
+      }
+    }
+    break
+  }
+  return frame
+}
+
+/**
+ * Pinta con `paint` solo lo ya escrito; la tinta fresca se vuelve a pintar
+ * con un halo de su color, como si aún empapara el papel.
+ */
+export function paintInked(
+  ctx: CanvasRenderingContext2D,
+  frame: InkFrame,
+  color: string,
+  paint: () => void,
+): void {
+  const clipped = (rects: TextRect[], alpha: number, blur: number) => {
+    if (!rects.length) return
+    ctx.save()
+    ctx.beginPath()
+    for (const r of rects) ctx.rect(r.x, r.y, r.width, r.height)
+    ctx.clip()
+    ctx.globalAlpha = alpha
+    if (blur) {
+      ctx.shadowColor = color
+      ctx.shadowBlur = blur
+    }
+    paint()
+    ctx.restore()
+  }
+
+  clipped(frame.done, 1, 0)
+  if (frame.current) {
+    clipped([frame.current.rect], frame.current.alpha, 0)
+    if (frame.wet) {
+      clipped([frame.wet], 0.5 * frame.current.alpha, 7)
+    }
+  }
+}
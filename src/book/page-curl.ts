@@ -0,0 +1,61 @@
+import * as THREE from 'three'
+
+export type TurnSide = 1 | -1
+
+/**
+ * Hoja subdividida a lo ancho, con el borde del lomo en x = 0.
+ * side = 1 se extiende hacia +x (hoja derecha), side = -1 hacia -x.
+ */
+export function createTurnGeometry(
+  width: number,
+  height: number,
+  side: TurnSide,
+  segments = 32,
+): THREE.PlaneGeometry {
+  const geo = new THREE.PlaneGeometry(width, height, segments, 1)
+  geo.translate((side * width) / 2, 0, 0)
+  return geo
+}
+
+/**
+ * Dobla la hoja en el espacio local de su pivot. La rotación rígida la aplica
+ * el pivot; aquí solo se suma la curvatura: el canto exterior se adelanta al
+ * levantar, la hoja se curva a mitad de giro y se aplana al aterrizar.
+ */
+export function bendTurnGeometry(
+  geo: THREE.PlaneGeometry,
+  side: TurnSide,
+  progress: number,
+  curl: number,
+): void {
+  const { width, widthSegments } = geo.parameters
+  const ds = width / widthSegments
+  const theta = Math.PI * progress
+  const bend = curl * Math.sin(Math.PI * progress)
+
+  // Perfil por columna (distancia al lomo), integrando el ángulo a lo largo de la hoja
+  const xs = new Float32Array(widthSegments + 1)
+  const zs = new Float32Array(widthSegments + 1)
+  let x = 0
+  let z = 0
+  for (let j = 1; j <= widthSegments; j++) {
+    const s = (j - 0.5) / widthSegments
+    const phi = THREE.MathUtils.clamp(theta + bend * s * s, 0, Math.PI) - theta
+    x += Math.cos(phi) * ds
+    z += Math.sin(phi) * ds
+    xs[j] = x
+    zs[j] = z
+  }
+
+  const pos = geo.attributes.position as THREE.BufferAttribute
+  const cols = widthSegments + 1
+  for (let i = 0; i < pos.count; i++) {
+    const ix = i % cols
+    const col = side === 1 ? ix : widthSegments - ix
+    pos.setX(i, side * xs[col])
+    pos.setZ(i, zs[col])
+  }
+  pos.needsUpdate = true
+  geo.computeVertexNormals()
+  geo.computeBoundingSphere()
+}
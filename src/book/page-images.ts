@@ -0,0 +1,173 @@
+import type { TextFrame, TextRect } from './rich-text'
+
+export type PageImageSource =
+  string | ImageBitmap | HTMLImageElement | HTMLCanvasElement
+
+export type PageImagePlacement =
+  // Toda la página, bajo el texto
+  | 'full'
+  // Banda a lo ancho del cuerpo, arriba o abajo
+  | 'top'
+  | 'bottom'
+  // Flotante en una esquina superior del cuerpo, con el texto alrededor
+  | 'float-left'
+  | 'float-right'
+
+export interface PageImage {
+  // URL (mismo origen) o imagen ya decodificada
+  src: PageImageSource
+  placement: PageImagePlacement
+  caption?: string
+  // Tamaño en px del canvas (alto de las bandas; ancho y alto del flotante)
+  width?: number
+  height?: number
+}
+
+export interface ImagePlan {
+  image: PageImage
+  rect: TextRect
+  // Línea base del pie, si lo hay
+  captionY: number | null
+}
+
+const CAPTION_H = 40
+const GAP = 24
+
+// Imágenes por URL: la promesa se comparte y el resultado queda a mano para
+// dibujar en síncrono las que ya están listas
+const loading = new Map<string, Promise<HTMLImageElement>>()
+const loaded = new Map<string, HTMLImageElement>()
+
+export function loadPageImage(url: string): Promise<HTMLImageElement> {
+  let promise = loading.get(url)
+  if (!promise) {
+    const img = new Image()
+    img.src = url
+    promise = img.decode().then(() => {
+      loaded.set(url, img)
+      return img
+    })
+    // Un fallo no se cachea: se reintenta en el próximo dibujo
+    promise.catch(() => loading.delete(url))
+    loading.set(url, promise)
+  }
+  return promise
+}
+
+/** Imagen lista para drawImage, o null si todavía se está cargando. */
+export function readyImage(
+  src: PageImageSource,
+): Exclude<PageImageSource, string> | null {
+  return typeof src === 'string' ? (loaded.get(src) ?? null) : src
+}
+
+/**
+ * Reparte las imágenes de una página y devuelve el marco y las exclusiones
+ * que le quedan al texto. Solo depende de los tamaños declarados, así que el
+ * paginador compone igual antes y después de que carguen.
+ */
+export function planPageImages(
+  images: PageImage[],
+  body: TextFrame,
+  page: { width: number; height: number },
+  fontSize: number,
+): { frame: TextFrame; exclusions: TextRect[]; plans: ImagePlan[] } {
+  const frame = { ...body }
+  const exclusions: TextRect[] = []
+  const plans: ImagePlan[] = []
+  // Bandas apiladas: cada una empuja el texto hacia dentro
+  let topEdge = body.top
+  let bottomEdge = body.bottom
+
+  for (const image of images) {
+    const caption = image.caption ? CAPTION_H : 0
+    switch (image.placement) {
+      case 'full':
+        plans.push({
+          image,
+          rect: { x: 0, y: 0, width: page.width, height: page.height },
+          captionY: caption ? page.height - 36 : null,
+        })
+        break
+      case 'top': {
+        const height = image.height ?? 280
+        const rect = { x: body.x, y: topEdge, width: body.width, height }
+        plans.push({
+          image,
+          rect,
+          captionY: caption ? rect.y + height + 30 : null,
+        })
+        topEdge = rect.y + height + caption + GAP
+        break
+      }
+      case 'bottom': {
+        const height = image.height ?? 280
+        const rect = {
+          x: body.x,
+          y: bottomEdge - caption - height,
+          width: body.width,
+          height,
+        }
+        plans.push({
+          image,
+          rect,
+          captionY: caption ? rect.y + height + 30 : null,
+        })
+        bottomEdge = rect.y - GAP
+        break
+      }
+      default: {
+        const width = Math.min(image.width ?? 360, body.width * 0.6)
+        const height = image.height ?? 300
+        const left = image.placement === 'float-left'
+        const rect = {
+          x: left ? body.x : body.x + body.width - width,
+          y: topEdge + 8,
+          width,
+          height,
+        }
+        plans.push({
+          image,
+          rect,
+          captionY: caption ? rect.y + height + 30 : null,
+        })
+        exclusions.push({
+          x: left ? rect.x : rect.x - GAP,
+          y: rect.y,
+          width: width + GAP,
+          height: height + caption + GAP / 2,
+        })
+      }
+    }
+  }
+
+  frame.top = topEdge
+  // La línea se acepta si su base cae en `bottom`: dejar sitio al cuerpo
+  if (bottomEdge < body.bottom) frame.bottom = bottomEdge - fontSize * 0.3
+  return { frame, exclusions, plans }
+}
+
+/** Dibuja la imagen recortada para cubrir el rectángulo (como object-fit: cover). */
+export function drawImageCover(
+  ctx: CanvasRenderingContext2D,
+  img: Exclude<PageImageSource, string>,
+  rect: TextRect,
+): void {
+  const sw = img instanceof HTMLImageElement ? img.naturalWidth : img.width
+  const sh = img instanceof HTMLImageElement ? img.naturalHeight : img.height
+  if (!sw || !sh) return
+  const scale = Math.max(rect.width / sw, rect.height / sh)
+  const cw = rect.width / scale
+  const ch = rect.height / scale
+  ctx.drawImage(
+    img,
+    (sw - cw) / 2,
+    (sh - ch) / 2,
+    cw,
+    ch,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+  )
+}
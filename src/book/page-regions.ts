@@ -0,0 +1,72 @@
+import * as THREE from 'three'
+import type { TextRect } from './rich-text'
+
+export type PageRegionAction =
+  // Ir a otra parte del libro: spread (base 0, como goToSpread) o página
+  // (base 0, como goToPage)
+  | { type: 'link'; target: 'spread' | 'page'; index: number }
+  | { type: 'footnote'; text: string }
+  // El host decide qué hacer escuchando 'regionactivate'
+  | { type: 'custom'; id: string; data?: unknown }
+
+// Zona interactiva en coordenadas del canvas de la página
+export interface PageRegion extends TextRect {
+  action: PageRegionAction
+}
+
+interface PageRecord {
+  width: number
+  height: number
+  regions: PageRegion[]
+}
+
+// Regiones de cada textura de página generada; se olvidan con la textura
+const records = new WeakMap<THREE.Texture, PageRecord>()
+
+export function registerPageRegions(
+  tex: THREE.Texture,
+  width: number,
+  height: number,
+  regions: PageRegion[],
+): void {
+  if (regions.length) records.set(tex, { width, height, regions })
+  else records.delete(tex)
+}
+
+export function getPageRegions(tex: THREE.Texture): PageRegion[] {
+  return records.get(tex)?.regions ?? []
+}
+
+/** Región bajo un punto UV de la textura (la última declarada gana). */
+export function regionAtUV(
+  tex: THREE.Texture,
+  uv: THREE.Vector2,
+): PageRegion | null {
+  const record = records.get(tex)
+  if (!record) return null
+  // flipY: v = 1 es el borde superior del canvas
+  const x = uv.x * record.width
+  const y = (1 - uv.y) * record.height
+  for (let i = record.regions.length - 1; i >= 0; i--) {
+    const r = record.regions[i]
+    if (x >= r.x && x <= r.x + r.width && y >= r.y && y <= r.y + r.height) {
+      return r
+    }
+  }
+  return null
+}
+
+/**
+ * Destino de un enlace del marcado: "page:12" (página 12 contando desde 1),
+ * "spread:3" (spread 3 contando desde 1, como #spread=3), "note:texto" (nota
+ * al pie) o cualquier otro identificador, que queda como acción 'custom'.
+ */
+export function parseLinkTarget(href: string): PageRegionAction {
+  const m = /^(page|spread|note):(.*)$/.exec(href.trim())
+  if (m?.[1] === 'note') return { type: 'footnote', text: m[2].trim() }
+  if (m && /^\d+$/.test(m[2].trim())) {
+    const target = m[1] === 'page' ? 'page' : 'spread'
+    return { type: 'link', target, index: Math.max(0, Number(m[2]) - 1) }
+  }
+  return { type: 'custom', id: href }
+}
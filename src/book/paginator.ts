@@ -0,0 +1,225 @@
+import * as THREE from 'three'
+import type { Spread, SpreadProvider } from './book.types'
+import { parseMarkup, serializeBlocks } from './rich-text'
+import type { TextBlock } from './rich-text'
+import { spreadCountForPages, pagesOfSpread, spreadsFromPages } from './sheets'
+import {
+  layoutPageBody,
+  makePageTexture,
+  tocEntriesPerPage,
+} from './texture-generator'
+import type { PageContent, TocEntry } from './texture-generator'
+import type { PageImage } from './page-images'
+import type { PageThemeInput } from './themes'
+import type { TextureFormat } from './texture-format'
+
+export interface DocumentSection {
+  title?: string
+  // Mismo marcado que PageContent.body
+  body: string
+  // Capitular en la primera página de la sección
+  dropCap?: boolean
+  // Entrada en el índice: true usa el título; un texto lo sustituye
+  chapter?: boolean | string
+  // Ilustraciones de la primera página de la sección
+  images?: PageImage[]
+  // Las páginas de la sección se escriben solas (ver PageContent.inkReveal)
+  inkReveal?: PageContent['inkReveal']
+}
+
+export interface TableOfContentsOptions {
+  title?: string
+  // Posición de la lista donde se insertan las páginas del índice
+  at?: number
+  firstPageNumber?: number
+  pageLabel?: (pageNumber: number) => string
+  // Tema y formato con los que se dibujarán las páginas
+  theme?: PageThemeInput
+  format?: TextureFormat
+}
+
+export interface PaginateOptions {
+  firstPageNumber?: number
+  pageLabel?: (pageNumber: number) => string
+  // Deben ser los mismos que reciba makePageTexture para que el corte coincida
+  theme?: PageThemeInput
+  format?: TextureFormat
+  // Título de las páginas que continúan una sección (por defecto, vacío)
+  continuationTitle?: (sectionTitle: string) => string
+}
+
+/**
+ * Reparte un documento largo en páginas del tamaño de makePageTexture.
+ * Cada sección empieza en página nueva; lo que no cabe sigue en la siguiente,
+ * cortando siempre entre líneas ya compuestas. Mide con las fuentes ya
+ * cargadas: con fuentes web, esperar antes a fontsReady().
+ */
+export function paginate(
+  doc: string | DocumentSection[],
+  options: PaginateOptions = {},
+): PageContent[] {
+  const {
+    firstPageNumber = 1,
+    pageLabel = n => `Pag. ${n}`,
+    continuationTitle = () => '',
+    theme,
+    format,
+  } = options
+  const sections: DocumentSection[] =
+    typeof doc === 'string' ? [{ body: doc }] : doc
+
+  const pages: PageContent[] = []
+  for (const section of sections) {
+    const title = section.title ?? ''
+    let blocks = parseMarkup(section.body)
+    let first = true
+    do {
+      const dropCap = first && !!section.dropCap
+      const images = first ? (section.images ?? []) : []
+      const { next } = layoutPageBody(
+        blocks,
+        { dropCap },
+        images,
+        theme,
+        format,
+      )
+      const [taken, rest] = next ? splitBlocks(blocks, next) : [blocks, []]
+      const chapter =
+        typeof section.chapter === 'string' ? section.chapter : title
+      pages.push({
+        title: first ? title : continuationTitle(title),
+        body: serializeBlocks(taken),
+        pageLabel: pageLabel(firstPageNumber + pages.length),
+        ...(dropCap ? { dropCap } : {}),
+        ...(first && section.chapter && chapter ? { chapter } : {}),
+        ...(images.length ? { images } : {}),
+        ...(section.inkReveal ? { inkReveal: section.inkReveal } : {}),
+      })
+      blocks = rest
+      first = false
+    } while (blocks.length)
+  }
+  return pages
+}
+
+/**
+ * Inserta páginas de índice con una entrada por cada página marcada como
+ * `chapter`, con puntos guía y enlace a su página. Como el índice desplaza la
+ * numeración, vuelve a numerar todas las páginas con `pageLabel` (mismo
+ * formato por defecto que paginate). Sin capítulos devuelve `pages` tal cual.
+ */
+export function addTableOfContents(
+  pages: PageContent[],
+  options: TableOfContentsOptions = {},
+): PageContent[] {
+  const {
+    title = 'Indice',
+    at = 0,
+    firstPageNumber = 1,
+    pageLabel = n => `Pag. ${n}`,
+    theme,
+    format,
+  } = options
+  const insertAt = Math.min(Math.max(0, Math.floor(at)), pages.length)
+  const perPage = tocEntriesPerPage(theme, format)
+  const chapters = pages.flatMap((page, i) =>
+    page.chapter ? [{ title: page.chapter, index: i }] : [],
+  )
+  if (!chapters.length) return pages
+  const count = Math.ceil(chapters.length / perPage)
+
+  const entries: TocEntry[] = chapters.map(({ title, index }) => {
+    const page = index >= insertAt ? index + count : index
+    return { title, page, label: String(page + firstPageNumber) }
+  })
+  const tocPages: PageContent[] = []
+  for (let k = 0; k < count; k++) {
+    tocPages.push({
+      title: k === 0 ? title : '',
+      body: '',
+      pageLabel: '',
+      toc: entries.slice(k * perPage, (k + 1) * perPage),
+    })
+  }
+
+  return [
+    ...pages.slice(0, insertAt),
+    ...tocPages,
+    ...pages.slice(insertAt),
+  ].map((page, i) => ({ ...page, pageLabel: pageLabel(i + firstPageNumber) }))
+}
+
+function splitBlocks(
+  blocks: TextBlock[],
+  at: { block: number; token: number },
+): [TextBlock[], TextBlock[]] {
+  // Si no entra ni una línea, se fuerza el primer bloque para avanzar
+  if (at.block === 0 && at.token === 0)
+    return [blocks.slice(0, 1), blocks.slice(1)]
+  if (at.token === 0) return [blocks.slice(0, at.block), blocks.slice(at.block)]
+
+  const cut = blocks[at.block]
+  const head: TextBlock = { ...cut, tokens: cut.tokens.slice(0, at.token) }
+  // La continuación de un item conserva la sangría pero no repite viñeta
+  const tail: TextBlock =
+    cut.kind === 'item'
+      ? { kind: 'item', continued: true, tokens: cut.tokens.slice(at.token) }
+      : { kind: cut.kind, tokens: cut.tokens.slice(at.token) }
+  return [
+    [...blocks.slice(0, at.block), head],
+    [tail, ...blocks.slice(at.block + 1)],
+  ]
+}
+
+/**
+ * Agrupa páginas como un libro real: la primera sola a la derecha y después
+ * verso/recto. Donde no hay página queda `blank` (o una página vacía). El
+ * Book que recibe estos spreads numera las páginas con el mismo reparto.
+ */
+export function makeSpreads(
+  renderer: THREE.WebGLRenderer,
+  pages: PageContent[],
+  blank?: THREE.Texture,
+  theme: PageThemeInput = {},
+  format?: TextureFormat,
+): Spread[] {
+  const empty =
+    blank ??
+    makePageTexture(
+      renderer,
+      { title: '', body: '', pageLabel: '' },
+      theme,
+      format,
+    )
+  return spreadsFromPages(
+    pages.map(page => makePageTexture(renderer, page, theme, format)),
+    empty,
+  )
+}
+
+/**
+ * Como makeSpreads, pero generando las texturas solo cuando el Book las pide.
+ * Las texturas creadas pasan a ser del Book, que las libera al salir de la ventana.
+ * `pages` se lee al generar cada spread: cambiar una entrada (junto con
+ * Book.updatePage para la que ya esté cargada) mantiene el contenido al día.
+ */
+export function createSpreadProvider(
+  renderer: THREE.WebGLRenderer,
+  pages: PageContent[],
+  theme: PageThemeInput = {},
+  format?: TextureFormat,
+): SpreadProvider {
+  const blank: PageContent = { title: '', body: '', pageLabel: '' }
+  const pageAt = (i: number | null) => (i === null ? blank : pages[i])
+  return {
+    count: spreadCountForPages(pages.length),
+    pages: pages.length,
+    getSpread: index => {
+      const { left, right } = pagesOfSpread(index, pages.length)
+      return {
+        left: makePageTexture(renderer, pageAt(left), theme, format),
+        right: makePageTexture(renderer, pageAt(right), theme, format),
+      }
+    },
+  }
+}
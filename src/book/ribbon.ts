@@ -0,0 +1,44 @@
+import * as THREE from 'three'
+
+/**
+ * Cinta de marcador en el espacio local de la página: baja por -y desde
+ * y = 0 a lo largo de `length` y el resto (`tail`) cuelga hacia -z por fuera
+ * del canto inferior, curvándose poco a poco.
+ */
+export function createRibbonGeometry(
+  width: number,
+  length: number,
+  tail: number,
+  segments = 48,
+): THREE.PlaneGeometry {
+  const geo = new THREE.PlaneGeometry(width, 1, 1, segments)
+  const pos = geo.attributes.position as THREE.BufferAttribute
+  const total = length + tail
+
+  // Perfil a lo largo de la cinta (una fila de vértices por segmento)
+  const ys = new Float32Array(segments + 1)
+  const zs = new Float32Array(segments + 1)
+  let y = 0
+  let z = 0
+  const ds = total / segments
+  for (let j = 1; j <= segments; j++) {
+    const d = (j - 0.5) * ds - length
+    // Recta sobre la página; en la cola el ángulo crece hasta ~70°
+    const phi = d > 0 ? Math.min(d / tail, 1) * 1.2 : 0
+    y -= Math.cos(phi) * ds
+    z -= Math.sin(phi) * ds
+    ys[j] = y
+    zs[j] = z
+  }
+
+  // PlaneGeometry ordena las filas de arriba (y = 0.5) abajo
+  for (let i = 0; i < pos.count; i++) {
+    const row = Math.floor(i / 2)
+    pos.setY(i, ys[row])
+    pos.setZ(i, zs[row])
+  }
+  pos.needsUpdate = true
+  geo.computeVertexNormals()
+  geo.computeBoundingSphere()
+  return geo
+}
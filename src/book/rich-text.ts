@@ -0,0 +1,520 @@
+// Marcado mínimo (subconjunto de Markdown) para el cuerpo de las páginas:
+//   párrafos separados por línea en blanco, "## subtítulo", "- viñeta",
+//   "1. numerada", "> cita", **negrita**, *cursiva* y [enlaces](destino)
+//   (escapar con \*, \[ o \]).
+
+export interface InlineToken {
+  text: string
+  bold: boolean
+  italic: boolean
+  // Hay espacio antes de la palabra (false si sigue pegada a la anterior)
+  space: boolean
+  // Destino de [texto](destino) si la palabra es parte de un enlace
+  link?: string
+}
+
+export type TextBlockKind = 'paragraph' | 'heading' | 'quote' | 'item'
+
+export interface TextBlock {
+  kind: TextBlockKind
+  tokens: InlineToken[]
+  // Viñeta ('•') o número ('3.') de los items de lista
+  marker?: string
+  // Resto de un item partido entre páginas: misma sangría, sin viñeta. En el
+  // marcado, línea sangrada al abrir el texto o tras un item
+  continued?: boolean
+}
+
+export interface RichTextStyle {
+  fontFamily: string
+  fontSize: number
+  lineHeight: number
+  headingSize: number
+  headingLineHeight: number
+  color: string
+  mutedColor: string
+  accentColor: string
+  blockGap: number
+  itemGap: number
+  indent: number
+}
+
+export const DEFAULT_RICH_TEXT_STYLE: RichTextStyle = {
+  fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, sans-serif',
+  fontSize: 34,
+  lineHeight: 46,
+  headingSize: 40,
+  headingLineHeight: 54,
+  color: 'rgba(0,0,0,0.85)',
+  mutedColor: 'rgba(0,0,0,0.62)',
+  accentColor: '#7a4e1d',
+  blockGap: 18,
+  itemGap: 6,
+  indent: 44,
+}
+
+export interface TextRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Caja donde se compone el texto; la línea se acepta si su base cae en `bottom`
+export interface TextFrame {
+  x: number
+  top: number
+  width: number
+  bottom: number
+}
+
+export interface TextLayoutOptions {
+  dropCap?: boolean
+  // Zonas a esquivar (capitular, imágenes flotantes...) en coordenadas del canvas
+  exclusions?: TextRect[]
+}
+
+export interface LayoutRun {
+  text: string
+  x: number
+  y: number
+  width: number
+  font: string
+  color: string
+  link?: string
+}
+
+export interface LayoutLine {
+  block: number
+  // Rango de tokens [start, end) del bloque que ocupa la línea
+  start: number
+  end: number
+  // Línea base y caja vertical de la línea
+  y: number
+  top: number
+  height: number
+  runs: LayoutRun[]
+  // Caja horizontal de cada token de la línea, en orden (para resaltarlos)
+  words: { x: number; width: number }[]
+}
+
+export interface LayoutMark extends LayoutRun {
+  block: number
+}
+
+export interface LayoutBar extends TextRect {
+  block: number
+}
+
+export interface TextLayout {
+  lines: LayoutLine[]
+  // Viñetas, números y capitular (no pertenecen al flujo de tokens)
+  marks: LayoutMark[]
+  // Barras de las citas
+  bars: LayoutBar[]
+  // Primer token que no cupo, o null si entró todo
+  next: { block: number; token: number } | null
+}
+
+export function parseMarkup(src: string): TextBlock[] {
+  const blocks: TextBlock[] = []
+  let current: {
+    kind: TextBlockKind
+    marker?: string
+    continued?: boolean
+    text: string
+  } | null = null
+
+  const flush = () => {
+    if (!current) return
+    const block: TextBlock = {
+      kind: current.kind,
+      marker: current.marker,
+      tokens: parseInline(current.text),
+    }
+    if (current.continued) block.continued = true
+    blocks.push(block)
+    current = null
+  }
+
+  for (const raw of String(src ?? '').split('\n')) {
+    const line = raw.trim()
+    let m: RegExpExecArray | null
+    if (!line) {
+      flush()
+    } else if ((m = /^#{1,6}\s+(.*)$/.exec(line))) {
+      flush()
+      blocks.push({ kind: 'heading', tokens: parseInline(m[1]) })
+    } else if ((m = /^[-*+]\s+(.*)$/.exec(line))) {
+      flush()
+      current = { kind: 'item', marker: '•', text: m[1] }
+    } else if ((m = /^(\d+)[.)]\s+(.*)$/.exec(line))) {
+      flush()
+      current = { kind: 'item', marker: `${m[1]}.`, text: m[2] }
+    } else if ((m = /^>\s?(.*)$/.exec(line))) {
+      if (current?.kind === 'quote') current.text += ' ' + m[1]
+      else {
+        flush()
+        current = { kind: 'quote', text: m[1] }
+      }
+    } else if (current) {
+      current.text += ' ' + line
+    } else if (
+      /^\s{2,}/.test(raw) &&
+      (!blocks.length || blocks[blocks.length - 1].kind === 'item')
+    ) {
+      current = { kind: 'item', continued: true, text: line }
+    } else {
+      current = { kind: 'paragraph', text: line }
+    }
+  }
+  flush()
+  return blocks
+}
+
+function parseInline(text: string): InlineToken[] {
+  const tokens: InlineToken[] = []
+  let bold = false
+  let italic = false
+  let space = false
+  let buf = ''
+  // Enlace abierto: dónde acaba su texto y dónde sigue tras "](destino)"
+  let link: { href: string; end: number; resume: number } | null = null
+
+  const push = () => {
+    if (!buf) return
+    const tok: InlineToken = { text: buf, bold, italic, space }
+    if (link) tok.link = link.href
+    tokens.push(tok)
+    buf = ''
+    space = false
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    let m: RegExpExecArray | null
+    if (link && i === link.end) {
+      push()
+      i = link.resume - 1
+      link = null
+    } else if (
+      ch === '[' &&
+      !link &&
+      (m = /^\[((?:\\.|[^\]\\])*)\]\(([^)]*)\)/.exec(text.slice(i)))
+    ) {
+      push()
+      link = {
+        href: m[2].trim(),
+        end: i + 1 + m[1].length,
+        resume: i + m[0].length,
+      }
+    } else if (ch === '\\' && i + 1 < text.length) {
+      buf += text[++i]
+    } else if (ch === '*') {
+      push()
+      if (text[i + 1] === '*') {
+        bold = !bold
+        i++
+      } else {
+        italic = !italic
+      }
+    } else if (/\s/.test(ch)) {
+      push()
+      if (tokens.length) space = true
+    } else {
+      buf += ch
+    }
+  }
+  push()
+  return tokens
+}
+
+/** Inverso de parseMarkup: parseMarkup(serializeBlocks(b)) reproduce b. */
+export function serializeBlocks(blocks: TextBlock[]): string {
+  return blocks
+    .map(block => {
+      const text = serializeInline(block.tokens)
+      switch (block.kind) {
+        case 'heading':
+          return `## ${text}`
+        case 'quote':
+          return `> ${text}`
+        case 'item':
+          return block.continued
+            ? `  ${escapeBlockStart(text)}`
+            : `${block.marker === '•' ? '-' : block.marker} ${text}`
+        default:
+          return escapeBlockStart(text)
+      }
+    })
+    .join('\n\n')
+}
+
+// Evita que un párrafo se relea como lista, cita o título
+function escapeBlockStart(text: string): string {
+  return /^([-+*>#]|\d+[.)])(\s|$)/.test(text) ? `\\${text}` : text
+}
+
+function serializeInline(tokens: InlineToken[]): string {
+  let out = ''
+  let bold = false
+  let italic = false
+  let link: string | undefined
+  tokens.forEach((tok, i) => {
+    // Se cierra antes del espacio y se abre después: "**a** b"
+    if (italic && !tok.italic) out += '*'
+    if (bold && !tok.bold) out += '**'
+    if (link !== undefined && tok.link !== link) out += `](${link})`
+    if (i > 0 && tok.space) out += ' '
+    if (tok.link !== undefined && tok.link !== link) out += '['
+    if (!bold && tok.bold) out += '**'
+    if (!italic && tok.italic) out += '*'
+    bold = tok.bold
+    italic = tok.italic
+    link = tok.link
+    out += tok.text.replace(/[\\*[\]]/g, m => `\\${m}`)
+  })
+  if (italic) out += '*'
+  if (bold) out += '**'
+  if (link !== undefined) out += `](${link})`
+  return out
+}
+
+export function blockFont(
+  style: RichTextStyle,
+  block: TextBlock,
+  tok: Pick<InlineToken, 'bold' | 'italic'>,
+): string {
+  const heading = block.kind === 'heading'
+  const bold = tok.bold || heading
+  // En las citas la cursiva invierte: el énfasis se marca en redonda
+  const italic = block.kind === 'quote' ? !tok.italic : tok.italic
+  const size = heading ? style.headingSize : style.fontSize
+  return `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${size}px ${style.fontFamily}`
+}
+
+/**
+ * Compone los bloques dentro del marco con ajuste de línea greedy, midiendo
+ * cada palabra con su propia fuente. Se detiene en la primera línea que no
+ * cabe y la devuelve en `next` para que el paginador continúe desde ahí.
+ */
+export function layoutText(
+  ctx: CanvasRenderingContext2D,
+  blocks: TextBlock[],
+  frame: TextFrame,
+  options: TextLayoutOptions = {},
+  style: RichTextStyle = DEFAULT_RICH_TEXT_STYLE,
+): TextLayout {
+  const widths = new Map<string, number>()
+  const measure = (font: string, text: string) => {
+    const key = `${font}|${text}`
+    let w = widths.get(key)
+    if (w === undefined) {
+      ctx.font = font
+      w = ctx.measureText(text).width
+      widths.set(key, w)
+    }
+    return w
+  }
+
+  const exclusions = [...(options.exclusions ?? [])]
+  const lineBox = (top: number, height: number) => {
+    let x0 = frame.x
+    let x1 = frame.x + frame.width
+    for (const r of exclusions) {
+      if (r.y >= top + height || r.y + r.height <= top) continue
+      if (r.x + r.width / 2 < frame.x + frame.width / 2)
+        x0 = Math.max(x0, r.x + r.width)
+      else x1 = Math.min(x1, r.x)
+    }
+    return { x0, x1 }
+  }
+
+  const layout: TextLayout = { lines: [], marks: [], bars: [], next: null }
+  let cursor = frame.top
+  let dropCapPending = !!options.dropCap
+
+  for (let b = 0; b < blocks.length; b++) {
+    const block = blocks[b]
+    const heading = block.kind === 'heading'
+    const size = heading ? style.headingSize : style.fontSize
+    const lh = heading ? style.headingLineHeight : style.lineHeight
+    const color = block.kind === 'quote' ? style.mutedColor : style.color
+    const indent =
+      block.kind === 'item' || block.kind === 'quote' ? style.indent : 0
+
+    if (b > 0) {
+      const prev = blocks[b - 1]
+      cursor +=
+        block.kind === 'item' && prev.kind === 'item'
+          ? style.itemGap
+          : heading
+            ? style.blockGap * 2
+            : style.blockGap
+    }
+
+    // Capitular: primera letra del primer párrafo, tres líneas de alto
+    let tokens = block.tokens
+    if (dropCapPending && block.kind === 'paragraph' && tokens.length) {
+      dropCapPending = false
+      const first = tokens[0]
+      const letter = first.text[0]
+      // Que la altura de mayúscula (~0.7 del cuerpo) cubra las tres líneas
+      const capSize = Math.round(
+        (style.lineHeight * 2 + style.fontSize * 0.7) / 0.7,
+      )
+      const capFont = `bold ${capSize}px ${style.fontFamily}`
+      const capW = measure(capFont, letter)
+      const x0 = lineBox(cursor, style.lineHeight * 3).x0
+      layout.marks.push({
+        block: b,
+        text: letter,
+        x: x0,
+        y: cursor + style.lineHeight * 2 + style.fontSize,
+        width: capW,
+        font: capFont,
+        color: style.accentColor,
+      })
+      exclusions.push({
+        x: frame.x,
+        y: cursor,
+        width: x0 - frame.x + capW + 12,
+        height: style.lineHeight * 3,
+      })
+      tokens = [{ ...first, text: first.text.slice(1) }, ...tokens.slice(1)]
+    }
+
+    const blockTop = cursor
+    let i = 0
+    while (i < tokens.length || (i === 0 && tokens.length === 0)) {
+      const baseline = cursor + size
+      if (baseline > frame.bottom) {
+        layout.next = { block: b, token: i }
+        keepTogether(layout, blocks, b, i)
+        return layout
+      }
+
+      const { x0, x1 } = lineBox(cursor, lh)
+      const left = x0 + indent
+      const runs: LayoutRun[] = []
+      const words: LayoutLine['words'] = []
+      let x = left
+      const start = i
+      for (; i < tokens.length; i++) {
+        const tok = tokens[i]
+        const font = blockFont(style, block, tok)
+        const w = measure(font, tok.text)
+        const gap = x > left && tok.space ? measure(font, ' ') : 0
+        if (i > start && x + gap + w > x1) break
+        words.push({ x: x + gap, width: w })
+
+        const last = runs[runs.length - 1]
+        if (last && last.font === font && last.link === tok.link) {
+          last.text += (gap ? ' ' : '') + tok.text
+          last.width = x + gap + w - last.x
+        } else {
+          const run: LayoutRun = {
+            text: tok.text,
+            x: x + gap,
+            y: baseline,
+            width: w,
+            font,
+            color: tok.link ? style.accentColor : color,
+          }
+          if (tok.link) run.link = tok.link
+          runs.push(run)
+        }
+        x += gap + w
+      }
+
+      if (
+        start === 0 &&
+        block.kind === 'item' &&
+        block.marker &&
+        !block.continued
+      ) {
+        const font = blockFont(style, block, { bold: false, italic: false })
+        layout.marks.push({
+          block: b,
+          text: block.marker,
+          x: x0,
+          y: baseline,
+          width: measure(font, block.marker),
+          font,
+          color: style.mutedColor,
+        })
+      }
+
+      layout.lines.push({
+        block: b,
+        start,
+        end: i,
+        y: baseline,
+        top: cursor,
+        height: lh,
+        runs,
+        words,
+      })
+      cursor += lh
+      if (tokens.length === 0) break
+    }
+
+    if (block.kind === 'quote') {
+      layout.bars.push({
+        block: b,
+        x: frame.x + 8,
+        y: blockTop + 4,
+        width: 5,
+        height: cursor - blockTop - 8,
+      })
+    }
+  }
+  return layout
+}
+
+// Evita títulos huérfanos al pie y no parte items de lista entre páginas,
+// salvo que el bloque abra la página (si no, el paginador no avanzaría).
+function keepTogether(
+  layout: TextLayout,
+  blocks: TextBlock[],
+  b: number,
+  token: number,
+): void {
+  const opener = layout.lines[0]?.block
+  let cut = -1
+  if (token > 0 && blocks[b].kind === 'item' && opener !== b) cut = b
+  else if (token === 0 && blocks[b - 1]?.kind === 'heading' && opener !== b - 1)
+    cut = b - 1
+  if (cut < 0) return
+
+  layout.lines = layout.lines.filter(l => l.block < cut)
+  layout.marks = layout.marks.filter(m => m.block < cut)
+  layout.bars = layout.bars.filter(r => r.block < cut)
+  layout.next = { block: cut, token: 0 }
+}
+
+export function drawTextLayout(
+  ctx: CanvasRenderingContext2D,
+  layout: TextLayout,
+  style: RichTextStyle = DEFAULT_RICH_TEXT_STYLE,
+): void {
+  // Respeta la opacidad de quien llama (p. ej. el revelado de tinta)
+  const alpha = ctx.globalAlpha
+  ctx.save()
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'alphabetic'
+  ctx.fillStyle = style.mutedColor
+  for (const bar of layout.bars) {
+    ctx.globalAlpha = alpha * 0.5
+    ctx.fillRect(bar.x, bar.y, bar.width, bar.height)
+  }
+  ctx.globalAlpha = alpha
+  for (const run of [...layout.marks, ...layout.lines.flatMap(l => l.runs)]) {
+    ctx.font = run.font
+    ctx.fillStyle = run.color
+    ctx.fillText(run.text, run.x, run.y)
+    // Los enlaces van subrayados
+    if (run.link) ctx.fillRect(run.x, run.y + 5, run.width, 2)
+  }
+  ctx.restore()
+}
@@ -0,0 +1,163 @@
+import { parseMarkup } from './rich-text'
+import type { TextBlock } from './rich-text'
+import { spreadOfPage } from './sheets'
+import type { PageContent } from './texture-generator'
+
+// Palabras [start, end) del título o del bloque `block` del cuerpo (los
+// mismos tokens que compone layoutText)
+export interface WordRange {
+  field: 'title' | 'body'
+  block: number
+  start: number
+  end: number
+}
+
+export interface SearchMatch extends WordRange {
+  // Índice en la lista de páginas y dónde cae con el reparto de sheets
+  page: number
+  spread: number
+  side: 'left' | 'right'
+  // Palabras alrededor de la coincidencia, para listar resultados
+  excerpt: string
+}
+
+// Resaltado que se dibuja en una página; `active` es el resultado elegido
+export interface TextHighlight extends WordRange {
+  active: boolean
+}
+
+export interface SearchIndex {
+  search: (query: string) => SearchMatch[]
+}
+
+interface Word {
+  text: string
+  // Hay espacio antes (false si va pegada a la anterior)
+  space: boolean
+}
+
+// Texto de la página ya troceado; se rehace si cambia el contenido
+interface IndexedPage {
+  title: string
+  body: string
+  titleWords: Word[]
+  blocks: Word[][]
+}
+
+const EXCERPT_WORDS = 5
+
+/** Minúsculas y sin tildes: "Dragón" encuentra "dragon" y al revés. */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+/** Palabras de un texto plano (como se dibuja el título) y su posición. */
+export function splitWords(text: string): { text: string; index: number }[] {
+  return [...text.matchAll(/\S+/g)].map(m => ({ text: m[0], index: m.index }))
+}
+
+/**
+ * Rangos de palabras [start, end) donde aparece `query`. La consulta puede
+ * empezar o acabar a media palabra; se resalta la palabra entera.
+ */
+export function findWords(words: Word[], query: string): [number, number][] {
+  const needle = normalizeSearchText(query).trim().replace(/\s+/g, ' ')
+  if (!needle) return []
+
+  // Texto normalizado y, por cada carácter, la palabra de la que viene
+  let text = ''
+  const owner: number[] = []
+  words.forEach((word, i) => {
+    if (i > 0 && word.space) {
+      text += ' '
+      owner.push(i)
+    }
+    const norm = normalizeSearchText(word.text)
+    text += norm
+    for (let k = 0; k < norm.length; k++) owner.push(i)
+  })
+
+  const found: [number, number][] = []
+  let at = text.indexOf(needle)
+  while (at >= 0) {
+    found.push([owner[at], owner[at + needle.length - 1] + 1])
+    at = text.indexOf(needle, at + needle.length)
+  }
+  return found
+}
+
+/**
+ * Índice de búsqueda sobre el texto de las páginas (títulos y cuerpos; el
+ * índice de capítulos no). Como createSpreadProvider, lee `pages` en cada
+ * búsqueda, así que sigue al día si se cambian entradas.
+ */
+export function createSearchIndex(pages: PageContent[]): SearchIndex {
+  const cache = new WeakMap<PageContent, IndexedPage>()
+  const indexed = (page: PageContent): IndexedPage => {
+    const title = String(page.title ?? '')
+    let entry = cache.get(page)
+    if (!entry || entry.title !== title || entry.body !== page.body) {
+      entry = {
+        title,
+        body: page.body,
+        titleWords: splitWords(title).map(w => ({ text: w.text, space: true })),
+        blocks: parseMarkup(page.body).map(blockWords),
+      }
+      cache.set(page, entry)
+    }
+    return entry
+  }
+
+  return {
+    search: query => {
+      const matches: SearchMatch[] = []
+      pages.forEach((content, page) => {
+        const { titleWords, blocks } = indexed(content)
+        const where = {
+          page,
+          spread: spreadOfPage(page),
+          side: page % 2 === 0 ? 'right' : 'left',
+        } as const
+        for (const [start, end] of findWords(titleWords, query)) {
+          const excerpt = excerptOf(titleWords, start, end)
+          matches.push({
+            ...where,
+            field: 'title',
+            block: 0,
+            start,
+            end,
+            excerpt,
+          })
+        }
+        blocks.forEach((words, block) => {
+          for (const [start, end] of findWords(words, query)) {
+            const excerpt = excerptOf(words, start, end)
+            matches.push({
+              ...where,
+              field: 'body',
+              block,
+              start,
+              end,
+              excerpt,
+            })
+          }
+        })
+      })
+      return matches
+    },
+  }
+}
+
+function blockWords(block: TextBlock): Word[] {
+  return block.tokens.map(({ text, space }) => ({ text, space }))
+}
+
+function excerptOf(words: Word[], start: number, end: number): string {
+  const from = Math.max(0, start - EXCERPT_WORDS)
+  const to = Math.min(words.length, end + EXCERPT_WORDS)
+  const text = words
+    .slice(from, to)
+    .map((w, i) => (i > 0 && w.space ? ' ' : '') + w.text)
+    .join('')
+  return `${from > 0 ? '… ' : ''}${text}${to < words.length ? ' …' : ''}`
+}
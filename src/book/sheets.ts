@@ -0,0 +1,60 @@
+/**
+ * Reparto de una lista plana de páginas como en un libro real: la primera
+ * página (recto) abre sola a la derecha y cada hoja lleva su recto a la
+ * derecha del spread i y su verso a la izquierda del spread i + 1.
+ */
+
+export interface SpreadPages {
+  // Índices en la lista de páginas; null = página en blanco de relleno
+  left: number | null
+  right: number | null
+}
+
+// Páginas de cada lista que devuelve spreadsFromPages: el Book que la recibe
+// como spreads numera sus páginas con el mismo reparto
+const pageCounts = new WeakMap<object, number>()
+
+export function spreadCountForPages(pageCount: number): number {
+  return Math.floor(pageCount / 2) + 1
+}
+
+export function pagesOfSpread(index: number, pageCount: number): SpreadPages {
+  const left = index * 2 - 1
+  const right = index * 2
+  return {
+    left: left >= 0 && left < pageCount ? left : null,
+    right: right < pageCount ? right : null,
+  }
+}
+
+export function spreadOfPage(page: number): number {
+  return Math.floor((page + 1) / 2)
+}
+
+/** Spreads con `blank` donde no hay página (antes de la 1.ª y tras la última). */
+export function spreadsFromPages<T>(
+  pages: T[],
+  blank: T,
+): Array<{ left: T; right: T }> {
+  const spreads: Array<{ left: T; right: T }> = []
+  for (let i = 0; i < spreadCountForPages(pages.length); i++) {
+    const { left, right } = pagesOfSpread(i, pages.length)
+    spreads.push({
+      left: left === null ? blank : pages[left],
+      right: right === null ? blank : pages[right],
+    })
+  }
+  pageCounts.set(spreads, pages.length)
+  return spreads
+}
+
+/**
+ * Cuántas páginas repartieron spreadsFromPages (o makeSpreads) en `spreads`;
+ * null si la lista no viene de ahí o ya no tiene los mismos spreads.
+ */
+export function pageCountOfSpreads(spreads: readonly unknown[]): number | null {
+  const count = pageCounts.get(spreads)
+  return count !== undefined && spreads.length === spreadCountForPages(count)
+    ? count
+    : null
+}
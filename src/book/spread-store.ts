@@ -0,0 +1,169 @@
+import type { Spread, SpreadProvider } from './book.types'
+
+export interface SpreadStoreOptions {
+  // Spreads a cada lado del actual que se piden por adelantado
+  window: number
+  // Máximo de spreads cargados antes de descartar los menos usados
+  maxLoaded: number
+  onLoad: (index: number) => void
+  onEvict: (index: number, spread: Spread) => void
+  // El provider lanzó o rechazó; el spread se volverá a pedir más adelante
+  onError: (index: number, error: unknown) => void
+}
+
+/**
+ * Origen de los spreads del Book. Con un array fijo todo está cargado y nada
+ * se descarta; con un SpreadProvider se piden solo los cercanos al spread
+ * actual y se descartan por LRU los que quedan fuera de la ventana.
+ */
+export class SpreadStore {
+  // El orden de inserción del Map hace de LRU (lo último es lo más reciente)
+  private readonly loaded = new Map<number, Spread>()
+  private readonly pending = new Set<number>()
+  private readonly provider: SpreadProvider | null
+  private readonly fixed: Spread[]
+  private readonly options: SpreadStoreOptions
+  private disposed = false
+
+  constructor(source: Spread[] | SpreadProvider, options: SpreadStoreOptions) {
+    this.options = options
+    if (Array.isArray(source)) {
+      this.provider = null
+      this.fixed = [...source]
+    } else {
+      this.provider = source
+      this.fixed = []
+    }
+  }
+
+  public get count(): number {
+    return this.provider ? this.provider.count : this.fixed.length
+  }
+
+  public isLazy(): boolean {
+    return this.provider !== null
+  }
+
+  /** Spread cargado, o null mientras se produce (y lo pide si hace falta). */
+  public get(index: number): Spread | null {
+    if (!this.provider) return this.fixed[index] ?? null
+
+    const spread = this.loaded.get(index)
+    if (spread) {
+      this.loaded.delete(index)
+      this.loaded.set(index, spread)
+      return spread
+    }
+    // Un provider síncrono lo deja cargado en el acto
+    this.request(index)
+    return this.loaded.get(index) ?? null
+  }
+
+  /** Como get, pero sin pedirlo ni contar como uso. */
+  public peek(index: number): Spread | null {
+    if (!this.provider) return this.fixed[index] ?? null
+    return this.loaded.get(index) ?? null
+  }
+
+  /**
+   * Pide la ventana alrededor de `center` y descarta lo que sobre.
+   * `pinned` son índices en uso que no se pueden descartar (p.ej. un flip).
+   */
+  public retain(center: number, pinned: number[] = []): void {
+    if (!this.provider) return
+    const { window, maxLoaded } = this.options
+    const keep = new Set(pinned)
+    for (let i = center - window; i <= center + window; i++) {
+      if (i < 0 || i >= this.count) continue
+      keep.add(i)
+      this.request(i)
+    }
+
+    for (const index of [...this.loaded.keys()]) {
+      if (this.loaded.size <= maxLoaded) break
+      if (keep.has(index)) continue
+      this.evict(index)
+    }
+  }
+
+  // Edición (solo con un array fijo: el provider decide su propio contenido;
+  // el Book lo comprueba antes de llegar aquí)
+
+  public insert(index: number, spread: Spread): void {
+    this.assertEditable()
+    this.fixed.splice(index, 0, spread)
+  }
+
+  public remove(index: number): Spread {
+    this.assertEditable()
+    return this.fixed.splice(index, 1)[0]
+  }
+
+  public replace(index: number, spread: Spread): Spread {
+    this.assertEditable()
+    const old = this.fixed[index]
+    this.fixed[index] = spread
+    return old
+  }
+
+  public reset(spreads: Spread[]): Spread[] {
+    this.assertEditable()
+    return this.fixed.splice(0, this.fixed.length, ...spreads)
+  }
+
+  public dispose(): void {
+    this.disposed = true
+    for (const index of [...this.loaded.keys()]) this.evict(index)
+    this.fixed.length = 0
+  }
+
+  private assertEditable(): void {
+    if (this.provider) {
+      throw new Error('no se pueden editar los spreads de un spreadProvider')
+    }
+  }
+
+  private request(index: number): void {
+    const provider = this.provider
+    if (!provider || this.disposed) return
+    if (index < 0 || index >= provider.count) return
+    if (this.loaded.has(index) || this.pending.has(index)) return
+
+    let result: Spread | Promise<Spread>
+    try {
+      result = provider.getSpread(index)
+    } catch (err) {
+      this.options.onError(index, err)
+      return
+    }
+
+    if (!(result instanceof Promise)) {
+      this.loaded.set(index, result)
+      return
+    }
+
+    this.pending.add(index)
+    result.then(
+      spread => {
+        this.pending.delete(index)
+        if (this.disposed) {
+          this.options.onEvict(index, spread)
+          return
+        }
+        this.loaded.set(index, spread)
+        this.options.onLoad(index)
+      },
+      err => {
+        this.pending.delete(index)
+        if (!this.disposed) this.options.onError(index, err)
+      },
+    )
+  }
+
+  private evict(index: number): void {
+    const spread = this.loaded.get(index)
+    if (!spread) return
+    this.loaded.delete(index)
+    this.options.onEvict(index, spread)
+  }
+}
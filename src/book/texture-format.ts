@@ -0,0 +1,77 @@
+import type { BookDimensions } from './book.types'
+
+// Cara del libro donde se verá una textura, en unidades de mundo
+export interface TextureFormat {
+  width: number
+  height: number
+  // Densidad de la textura; por defecto DEFAULT_PIXELS_PER_UNIT
+  pixelsPerUnit?: number
+}
+
+// Tamaño del canvas: `logical` es el sistema en el que se maqueta (ancho fijo,
+// alto según el aspecto) y `scale` lo lleva a los píxeles reales
+export interface CanvasSize {
+  width: number
+  height: number
+  logical: { width: number; height: number }
+  scale: number
+}
+
+// Con las dimensiones por defecto, 1024 px de ancho de página
+export const DEFAULT_PIXELS_PER_UNIT = 640
+
+export const DEFAULT_BOOK_DIMENSIONS: Required<BookDimensions> = {
+  pageWidth: 1.6,
+  pageHeight: 2.1,
+  pageGap: 0.0,
+  spineWidth: 0.08,
+  coverThickness: 0.06,
+  pageBlockThickness: 0.09,
+  coverPadding: 0.1,
+}
+
+/**
+ * Formatos de página, tapa y lomo para un Book con estas dimensiones. Las
+ * tapas van giradas 90° en el Book (ver tuneCoverTexture), así que su canvas
+ * es apaisado: el ancho del dibujo corre a lo alto de la tapa.
+ */
+export function bookTextureFormats(
+  dimensions: BookDimensions = {},
+  pixelsPerUnit = DEFAULT_PIXELS_PER_UNIT,
+): { page: TextureFormat; cover: TextureFormat; spine: TextureFormat } {
+  const d = { ...DEFAULT_BOOK_DIMENSIONS, ...dimensions }
+  const coverW = d.pageWidth + d.coverPadding * 2
+  const coverH = d.pageHeight + d.coverPadding * 2
+  return {
+    page: { width: d.pageWidth, height: d.pageHeight, pixelsPerUnit },
+    cover: { width: coverH, height: coverW, pixelsPerUnit },
+    spine: {
+      width: Math.max(d.spineWidth, 0.06) + d.coverPadding * 1.2,
+      height: coverH,
+      pixelsPerUnit,
+    },
+  }
+}
+
+/**
+ * Canvas con el aspecto del formato y `logicalWidth` unidades de maqueta de
+ * ancho. Ningún lado pasa de `maxSize` (maxTextureSize del renderer).
+ */
+export function canvasSizeFor(
+  format: TextureFormat,
+  logicalWidth: number,
+  maxSize: number,
+): CanvasSize {
+  const ppu = format.pixelsPerUnit ?? DEFAULT_PIXELS_PER_UNIT
+  const aspect = format.height / format.width
+  const width = Math.max(
+    1,
+    Math.round(Math.min(format.width * ppu, maxSize, maxSize / aspect)),
+  )
+  return {
+    width,
+    height: Math.max(1, Math.round(width * aspect)),
+    logical: { width: logicalWidth, height: logicalWidth * aspect },
+    scale: width / logicalWidth,
+  }
+}
@@ -1,9 +1,66 @@
 import * as THREE from 'three'
+import { drawTextLayout, layoutText, parseMarkup } from './rich-text'
+import type {
+  RichTextStyle,
+  TextBlock,
+  TextFrame,
+  TextLayout,
+  TextLayoutOptions,
+  TextRect,
+} from './rich-text'
+import { resolveCoverTheme, resolvePageTheme } from './themes'
+import type {
+  CoverTheme,
+  CoverThemeInput,
+  PageTheme,
+  PageThemeInput,
+} from './themes'
+import { parseLinkTarget, registerPageRegions } from './page-regions'
+import type { PageRegion } from './page-regions'
+import {
+  drawImageCover,
+  loadPageImage,
+  planPageImages,
+  readyImage,
+} from './page-images'
+import type { ImagePlan, PageImage, PageImageSource } from './page-images'
+import { fontVariants, loadFonts, pendingFonts } from './fonts'
+import { inkFrame, paintInked } from './ink-reveal'
+import { drawAnnotations } from './annotations'
+import type { AnnotationStroke } from './annotations'
+import { splitWords } from './search'
+import type { TextHighlight } from './search'
+import type { InkRevealMode, InkStroke } from './ink-reveal'
+import { bookTextureFormats, canvasSizeFor } from './texture-format'
+import type { CanvasSize, TextureFormat } from './texture-format'
 
 export interface PageContent {
   title: string
+  // Marcado de rich-text.ts: párrafos, ## subtítulos, listas, > citas, **b**, *i*
   body: string
   pageLabel: string
+  // Capitular en el primer párrafo
+  dropCap?: boolean
+  // Zonas interactivas extra (unidades de maqueta: 1024 de ancho, el alto
+  // según el aspecto de la página); los [enlaces](destino) del cuerpo se
+  // añaden solos
+  regions?: PageRegion[]
+  // La página abre un capítulo con este título (entrada del índice)
+  chapter?: string
+  // Entradas de índice que se dibujan tras el cuerpo (ver addTableOfContents)
+  toc?: TocEntry[]
+  // Ilustraciones; las que vienen por URL redibujan la textura al cargar
+  images?: PageImage[]
+  // Título y cuerpo se escriben solos la primera vez que el Book muestra la
+  // página (true = 'stroke'); ver BookAnimationSpeeds.reveal
+  inkReveal?: boolean | InkRevealMode
+}
+
+export interface TocEntry {
+  title: string
+  // Página de destino (índice en la lista de páginas) y número impreso
+  page: number
+  label: string
 }
 
 export interface CoverContent {
@@ -13,115 +70,584 @@ export interface CoverContent {
   accent?: string
   sigilText?: string
   blurb?: string
+  // Número de tomo (badge de la portada y pie del lomo)
+  volume?: string
+}
+
+// Métricas de página compartidas por el dibujo y el paginador: se maqueta
+// siempre sobre 1024 de ancho y el alto sale del aspecto de la página
+const PAGE_W = 1024
+const TOC_LINE_HEIGHT = 56
+const COVER_W = 1024
+const SPINE_H = 2048
+
+// Formatos de un Book con las dimensiones por defecto
+const DEFAULT_FORMATS = bookTextureFormats()
+
+// Marcador de las coincidencias de búsqueda; más intenso en la elegida
+const HIGHLIGHT_COLOR = 'rgba(255, 214, 64, 0.4)'
+const HIGHLIGHT_ACTIVE_COLOR = 'rgba(255, 168, 0, 0.7)'
+
+type PageSize = CanvasSize['logical']
+
+function pageSize(format: TextureFormat): PageSize {
+  return { width: PAGE_W, height: (PAGE_W * format.height) / format.width }
+}
+
+// Marco del cuerpo según los márgenes del tema
+function bodyFrame(theme: PageTheme, size: PageSize): TextFrame {
+  const { side, top, bottom } = theme.margins
+  return {
+    x: side,
+    top: top - theme.text.fontSize,
+    width: size.width - side * 2,
+    bottom: size.height - bottom,
+  }
+}
+
+/** Entradas de índice que caben en una página sin cuerpo. */
+export function tocEntriesPerPage(
+  theme: PageThemeInput = {},
+  format: TextureFormat = DEFAULT_FORMATS.page,
+): number {
+  const frame = bodyFrame(resolvePageTheme(theme), pageSize(format))
+  return Math.floor((frame.bottom - frame.top) / TOC_LINE_HEIGHT)
+}
+
+let measureCtx: CanvasRenderingContext2D | null = null
+
+function getMeasureContext(): CanvasRenderingContext2D {
+  if (!measureCtx) {
+    measureCtx = document
+      .createElement('canvas')
+      .getContext('2d') as CanvasRenderingContext2D
+  }
+  return measureCtx
 }
 
+/**
+ * Compone el cuerpo de una página con las mismas métricas que
+ * makePageTexture. `next` indica dónde se cortó si no cabe entero.
+ */
+export function layoutPageBody(
+  blocks: TextBlock[],
+  options: TextLayoutOptions = {},
+  images: PageImage[] = [],
+  theme: PageThemeInput = {},
+  format: TextureFormat = DEFAULT_FORMATS.page,
+): TextLayout {
+  const t = resolvePageTheme(theme)
+  const { frame, exclusions } = planImages(images, t, pageSize(format))
+  return layoutText(
+    getMeasureContext(),
+    blocks,
+    frame,
+    {
+      ...options,
+      exclusions: [...exclusions, ...(options.exclusions ?? [])],
+    },
+    t.text,
+  )
+}
+
+function planImages(images: PageImage[], theme: PageTheme, size: PageSize) {
+  return planPageImages(
+    images,
+    bodyFrame(theme, size),
+    size,
+    theme.text.fontSize,
+  )
+}
+
+/**
+ * Página con el aspecto de `format` (por defecto, el de un Book con las
+ * dimensiones por defecto). Paginar con el mismo formato y tema.
+ */
 export function makePageTexture(
   renderer: THREE.WebGLRenderer,
   data: PageContent,
+  theme: PageThemeInput = {},
+  format: TextureFormat = DEFAULT_FORMATS.page,
 ): THREE.Texture {
-  const w = 1024
-  const h = 1024
-  const canvas = document.createElement('canvas')
-  canvas.width = w
-  canvas.height = h
-  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D
+  const t = resolvePageTheme(theme)
+  const { ctx, tex, size } = createCanvasTexture(renderer, format, PAGE_W)
+  const { width, height } = size.logical
+  // Siempre se dibuja el contenido más reciente (ver redrawPageTexture) con
+  // el punto del revelado de tinta en que esté
+  let current = data
+  let reveal = 1
+  let strokes: AnnotationStroke[] = []
+  let highlights: TextHighlight[] = []
+  const draw = () => {
+    ctx.setTransform(size.scale, 0, 0, size.scale, 0, 0)
+    registerPageRegions(
+      tex,
+      width,
+      height,
+      drawPage(ctx, current, t, size.logical, reveal, highlights),
+    )
+    // Las anotaciones van encima de todo, también del texto por revelar
+    drawAnnotations(ctx, strokes, size.logical)
+    tex.needsUpdate = true
+  }
+  // Las fuentes sin cargar y las imágenes por URL se redibujan al llegar
+  const render = () => {
+    draw()
+    const images = (current.images ?? []).map(img => img.src)
+    redrawWhenReady(tex, pageFonts(t), images, draw)
+  }
+  render()
+
+  controls.set(tex, {
+    redraw: content => {
+      current = content
+      render()
+    },
+    reveal: progress => {
+      if (!current.inkReveal) return false
+      if (progress !== reveal) {
+        reveal = progress
+        draw()
+      }
+      return true
+    },
+    annotate: next => {
+      if (next === strokes) return
+      strokes = next
+      draw()
+    },
+    highlight: next => {
+      if (next === highlights) return
+      highlights = next
+      draw()
+    },
+  })
+  return tex
+}
+
+// Redibujado de cada textura de makePageTexture con su tema y formato
+const controls = new WeakMap<
+  THREE.Texture,
+  {
+    redraw: (data: PageContent) => void
+    reveal: (progress: number) => boolean
+    annotate: (strokes: AnnotationStroke[]) => void
+    highlight: (highlights: TextHighlight[]) => void
+  }
+>()
+
+/**
+ * Vuelve a dibujar una textura de makePageTexture con otro contenido, sobre
+ * el mismo canvas. Devuelve false si la textura no salió de makePageTexture.
+ */
+export function redrawPageTexture(
+  tex: THREE.Texture,
+  data: PageContent,
+): boolean {
+  const control = controls.get(tex)
+  control?.redraw(data)
+  return !!control
+}
+
+/**
+ * Lleva el revelado de tinta de una página a `progress` (0 = sin escribir,
+ * 1 = completa). Devuelve false si la página no tiene inkReveal.
+ */
+export function setPageReveal(tex: THREE.Texture, progress: number): boolean {
+  return controls.get(tex)?.reveal(progress) ?? false
+}
+
+/**
+ * Trazos que se componen sobre una textura de makePageTexture. Solo se
+ * redibuja si cambia la lista (se compara por referencia). Devuelve false si
+ * la textura no admite anotaciones.
+ */
+export function setPageAnnotations(
+  tex: THREE.Texture,
+  strokes: AnnotationStroke[],
+): boolean {
+  const control = controls.get(tex)
+  control?.annotate(strokes)
+  return !!control
+}
+
+/**
+ * Palabras resaltadas (resultados de búsqueda) de una textura de
+ * makePageTexture; como setPageAnnotations, compara la lista por referencia.
+ */
+export function setPageHighlights(
+  tex: THREE.Texture,
+  highlights: TextHighlight[],
+): boolean {
+  const control = controls.get(tex)
+  control?.highlight(highlights)
+  return !!control
+}
+
+// Dibuja la página completa y devuelve sus zonas interactivas
+function drawPage(
+  ctx: CanvasRenderingContext2D,
+  data: PageContent,
+  theme: PageTheme,
+  size: PageSize,
+  reveal = 1,
+  highlights: TextHighlight[] = [],
+): PageRegion[] {
+  const { width: w, height: h } = size
+  const style = theme.text
+  const { frame, exclusions, plans } = planImages(
+    data.images ?? [],
+    theme,
+    size,
+  )
+  const full = plans.filter(p => p.image.placement === 'full')
 
   // Papel
-  ctx.fillStyle = '#f3ead4'
+  ctx.fillStyle = theme.paper
   ctx.fillRect(0, 0, w, h)
 
-  // Borde
-  ctx.strokeStyle = 'rgba(0,0,0,0.12)'
-  ctx.lineWidth = 8
-  ctx.strokeRect(20, 20, w - 40, h - 40)
+  // Ilustración a sangre (bajo todo lo demás)
+  full.forEach(plan => drawImagePlan(ctx, plan, theme))
+
+  drawOrnament(ctx, theme, size)
 
   // Sombra lateral
+  const shade = `rgba(0,0,0,${theme.gutterShade})`
   const grad = ctx.createLinearGradient(0, 0, w, 0)
-  grad.addColorStop(0, 'rgba(0,0,0,0.10)')
+  grad.addColorStop(0, shade)
   grad.addColorStop(0.08, 'rgba(0,0,0,0.00)')
   grad.addColorStop(0.92, 'rgba(0,0,0,0.00)')
-  grad.addColorStop(1, 'rgba(0,0,0,0.10)')
+  grad.addColorStop(1, shade)
   ctx.fillStyle = grad
   ctx.fillRect(0, 0, w, h)
 
-  // Título
-  ctx.fillStyle = '#1c1c1c'
-  ctx.font = 'bold 54px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
-  ctx.fillText(String(data.title ?? ''), 70, 130)
-
-  // Cuerpo (wrap simple)
-  ctx.font = '34px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
-  ctx.fillStyle = 'rgba(0,0,0,0.85)'
-  const maxWidth = w - 140
-
-  const words = String(data.body ?? '')
-    .replaceAll('\n', ' ')
-    .split(' ')
-    .filter(Boolean)
-
-  let line = ''
-  let y = 210
-  const lineHeight = 46
-
-  for (let i = 0; i < words.length; i++) {
-    const test = line ? line + ' ' + words[i] : words[i]
-    const metrics = ctx.measureText(test)
-    if (metrics.width > maxWidth) {
-      ctx.fillText(line, 70, y)
-      line = words[i]
-      y += lineHeight
-      if (y > h - 120) break
-    } else {
-      line = test
-    }
+  // Cuerpo (lo que no cabe se pierde: usar paginate para textos largos)
+  const layout = layoutText(
+    ctx,
+    parseMarkup(data.body),
+    frame,
+    { dropCap: data.dropCap, exclusions },
+    style,
+  )
+
+  // Título, 80px sobre la primera línea del cuerpo
+  const title = String(data.title ?? '')
+  const titleY = theme.margins.top - 80
+  ctx.font = `bold ${theme.titleSize}px ${theme.titleFont}`
+
+  // Resaltados bajo el texto, sobre la misma maquetación que se dibuja
+  for (const h of highlights) {
+    ctx.fillStyle = h.active ? HIGHLIGHT_ACTIVE_COLOR : HIGHLIGHT_COLOR
+    const boxes =
+      h.field === 'title'
+        ? titleBoxes(ctx, title, h, theme, titleY)
+        : bodyBoxes(layout, h)
+    for (const r of boxes) ctx.fillRect(r.x, r.y, r.width, r.height)
   }
-  if (y <= h - 120 && line) ctx.fillText(line, 70, y)
+
+  // Revelado de tinta: título y líneas del cuerpo, en orden de lectura
+  const ink =
+    data.inkReveal && reveal < 1
+      ? inkFrame(
+          [
+            {
+              x: theme.margins.side,
+              width: ctx.measureText(title).width,
+              top: titleY - theme.titleSize,
+              height: theme.titleSize * 1.3,
+            },
+            ...layout.lines.map(lineStroke),
+          ],
+          reveal,
+          data.inkReveal === 'line' ? 'line' : 'stroke',
+          w,
+        )
+      : null
+  const inked = (color: string, paint: () => void) =>
+    ink ? paintInked(ctx, ink, color, paint) : paint()
+
+  inked(theme.titleColor, () => {
+    ctx.fillStyle = theme.titleColor
+    ctx.font = `bold ${theme.titleSize}px ${theme.titleFont}`
+    ctx.fillText(title, theme.margins.side, titleY)
+  })
+
+  // Ilustraciones en banda o flotantes
+  plans
+    .filter(p => p.image.placement !== 'full')
+    .forEach(plan => drawImagePlan(ctx, plan, theme))
+
+  inked(style.color, () => drawTextLayout(ctx, layout, style))
+
+  const tocTop = layout.lines.length
+    ? layout.lines[layout.lines.length - 1].top +
+      layout.lines[layout.lines.length - 1].height +
+      style.blockGap
+    : frame.top
+  const tocRegions = data.toc
+    ? drawToc(ctx, data.toc, tocTop, frame, style)
+    : []
 
   // Footer
-  ctx.font = '28px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
-  ctx.fillStyle = 'rgba(0,0,0,0.55)'
-  ctx.fillText(String(data.pageLabel ?? ''), 70, h - 70)
+  ctx.font = `${theme.footerSize}px ${theme.titleFont}`
+  ctx.fillStyle = theme.footerColor
+  ctx.fillText(String(data.pageLabel ?? ''), theme.margins.side, h - 70)
 
-  const tex = new THREE.CanvasTexture(canvas)
-  tex.colorSpace = THREE.SRGBColorSpace
-  tex.anisotropy = renderer.capabilities.getMaxAnisotropy()
-  return tex
+  return [...linkRegions(layout), ...tocRegions, ...(data.regions ?? [])]
+}
+
+// Cajas de las palabras resaltadas del cuerpo, una por línea que ocupan
+function bodyBoxes(layout: TextLayout, h: TextHighlight): TextRect[] {
+  return layout.lines.flatMap(line => {
+    if (line.block !== h.block) return []
+    const a = Math.max(h.start, line.start) - line.start
+    const b = Math.min(h.end, line.end) - line.start
+    if (a >= b) return []
+    const x = line.words[a].x - 4
+    const right = line.words[b - 1].x + line.words[b - 1].width + 4
+    return [{ x, y: line.top, width: right - x, height: line.height }]
+  })
+}
+
+// El título es un solo fillText: se mide hasta cada palabra con su fuente
+function titleBoxes(
+  ctx: CanvasRenderingContext2D,
+  title: string,
+  h: TextHighlight,
+  theme: PageTheme,
+  titleY: number,
+): TextRect[] {
+  const words = splitWords(title)
+  const first = words[h.start]
+  const last = words[h.end - 1]
+  if (!first || !last) return []
+  const at = (i: number) =>
+    theme.margins.side + ctx.measureText(title.slice(0, i)).width
+  const x = at(first.index) - 4
+  const right = at(last.index + last.text.length) + 4
+  return [
+    {
+      x,
+      y: titleY - theme.titleSize,
+      width: right - x,
+      height: theme.titleSize * 1.3,
+    },
+  ]
+}
+
+// Tramo con tinta de una línea compuesta
+function lineStroke(line: TextLayout['lines'][number]): InkStroke {
+  const left = Math.min(...line.runs.map(r => r.x))
+  const right = Math.max(...line.runs.map(r => r.x + r.width))
+  return line.runs.length
+    ? { x: left, width: right - left, top: line.top, height: line.height }
+    : { x: 0, width: 0, top: line.top, height: line.height }
+}
+
+// Borde de la página según el tema
+function drawOrnament(
+  ctx: CanvasRenderingContext2D,
+  theme: PageTheme,
+  size: PageSize,
+): void {
+  const { width: w, height: h } = size
+  ctx.strokeStyle = theme.ornamentColor
+  switch (theme.ornament) {
+    case 'frame':
+      ctx.lineWidth = 8
+      ctx.strokeRect(20, 20, w - 40, h - 40)
+      break
+    case 'double':
+      ctx.lineWidth = 6
+      ctx.strokeRect(20, 20, w - 40, h - 40)
+      ctx.lineWidth = 2
+      ctx.strokeRect(36, 36, w - 72, h - 72)
+      break
+    case 'corners': {
+      ctx.lineWidth = 4
+      const len = 70
+      for (const [x, y, sx, sy] of [
+        [28, 28, 1, 1],
+        [w - 28, 28, -1, 1],
+        [28, h - 28, 1, -1],
+        [w - 28, h - 28, -1, -1],
+      ]) {
+        ctx.beginPath()
+        ctx.moveTo(x, y + len * sy)
+        ctx.lineTo(x, y)
+        ctx.lineTo(x + len * sx, y)
+        ctx.stroke()
+      }
+      break
+    }
+  }
+}
+
+function drawImagePlan(
+  ctx: CanvasRenderingContext2D,
+  plan: ImagePlan,
+  theme: PageTheme,
+): void {
+  const { image, rect, captionY } = plan
+  const img = readyImage(image.src)
+  if (img) {
+    drawImageCover(ctx, img, rect)
+  } else {
+    // Hueco mientras carga (o si falló)
+    ctx.fillStyle = 'rgba(0,0,0,0.06)'
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height)
+    ctx.strokeStyle = 'rgba(0,0,0,0.15)'
+    ctx.lineWidth = 2
+    ctx.strokeRect(rect.x + 1, rect.y + 1, rect.width - 2, rect.height - 2)
+  }
+  if (captionY === null || !image.caption) return
+
+  const style = theme.text
+  ctx.save()
+  ctx.font = `italic 26px ${style.fontFamily}`
+  ctx.textBaseline = 'alphabetic'
+  if (image.placement === 'full') {
+    // Sobre la ilustración: banda oscura para que se lea
+    ctx.fillStyle = 'rgba(0,0,0,0.45)'
+    ctx.fillRect(0, captionY - 34, PAGE_W, 56)
+    ctx.fillStyle = 'rgba(255,255,255,0.92)'
+    ctx.textAlign = 'center'
+    ctx.fillText(image.caption, PAGE_W / 2, captionY, PAGE_W - 140)
+  } else {
+    ctx.fillStyle = style.mutedColor
+    ctx.textAlign = 'center'
+    ctx.fillText(image.caption, rect.x + rect.width / 2, captionY, rect.width)
+  }
+  ctx.restore()
+}
+
+// Título a la izquierda, número a la derecha y puntos guía entre ambos
+function drawToc(
+  ctx: CanvasRenderingContext2D,
+  entries: TocEntry[],
+  top: number,
+  frame: TextFrame,
+  style: RichTextStyle,
+): PageRegion[] {
+  const font = `${style.fontSize}px ${style.fontFamily}`
+  const { x, width, bottom } = frame
+  const right = x + width
+  const regions: PageRegion[] = []
+
+  ctx.save()
+  ctx.font = font
+  ctx.textBaseline = 'alphabetic'
+  const dotW = ctx.measureText('. ').width
+  let lineTop = top
+  for (const entry of entries) {
+    if (lineTop + TOC_LINE_HEIGHT > bottom) break
+    // Línea base centrando la altura de mayúscula (~0.7 del cuerpo)
+    const y = lineTop + (TOC_LINE_HEIGHT + style.fontSize * 0.7) / 2
+
+    const numW = ctx.measureText(entry.label).width
+    const maxTitle = width - numW - dotW * 4
+    let title = entry.title
+    while (title.length > 1 && ctx.measureText(title).width > maxTitle) {
+      title = title.slice(0, -2) + '…'
+    }
+    const titleW = ctx.measureText(title).width
+
+    ctx.fillStyle = style.color
+    ctx.textAlign = 'left'
+    ctx.fillText(title, x, y)
+    ctx.textAlign = 'right'
+    ctx.fillText(entry.label, right, y)
+
+    // Puntos alineados a una rejilla común para que formen columnas
+    ctx.fillStyle = style.mutedColor
+    ctx.textAlign = 'left'
+    const first = Math.ceil((x + titleW + dotW) / dotW) * dotW
+    for (let dx = first; dx + dotW <= right - numW - dotW / 2; dx += dotW) {
+      ctx.fillText('.', dx, y)
+    }
+
+    regions.push({
+      x,
+      y: lineTop,
+      width,
+      height: TOC_LINE_HEIGHT,
+      action: { type: 'link', target: 'page', index: entry.page },
+    })
+    lineTop += TOC_LINE_HEIGHT
+  }
+  ctx.restore()
+  return regions
+}
+
+// Una región por tramo enlazado, con la altura completa de su línea
+function linkRegions(layout: TextLayout): PageRegion[] {
+  return layout.lines.flatMap(line =>
+    line.runs
+      .filter(run => run.link)
+      .map(run => ({
+        x: run.x,
+        y: line.top,
+        width: run.width,
+        height: line.height,
+        action: parseLinkTarget(run.link as string),
+      })),
+  )
 }
 
 export function makeCoverTexture(
   renderer: THREE.WebGLRenderer,
   content: CoverContent,
   mode: 'front' | 'back',
+  theme: CoverThemeInput = {},
+  format: TextureFormat = DEFAULT_FORMATS.cover,
 ): THREE.Texture {
+  const t = resolveCoverTheme(theme)
+  const { ctx, tex, size } = createCanvasTexture(renderer, format, COVER_W)
+  const draw = () => {
+    ctx.setTransform(size.scale, 0, 0, size.scale, 0, 0)
+    drawCover(ctx, content, mode, t, size.logical)
+    tex.needsUpdate = true
+  }
+  draw()
+  redrawWhenReady(tex, coverFonts(t), [], draw)
+  return tex
+}
+
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  content: CoverContent,
+  mode: 'front' | 'back',
+  t: CoverTheme,
+  size: PageSize,
+): void {
+  const font = (spec: string) => `${spec} ${t.fontFamily}`
   const {
     title = 'Libro',
     subtitle = '',
     author = '',
-    accent = '#d6b35c',
+    accent = t.accent,
     blurb = '',
     sigilText = mode === 'front' ? 'TV' : '',
+    volume = 'I',
   } = content
 
-  const w = 1024
-  const h = 1024
-  const c = document.createElement('canvas')
-  c.width = w
-  c.height = h
-  const ctx = c.getContext('2d') as CanvasRenderingContext2D
+  const { width: w, height: h } = size
 
-  ctx.fillStyle = mode === 'front' ? '#162040' : '#0f1833'
+  ctx.fillStyle = mode === 'front' ? t.front : t.back
   ctx.fillRect(0, 0, w, h)
 
   // Grano
-  ctx.globalAlpha = 0.06
-  for (let i = 0; i < 1400; i++) {
-    const x = Math.random() * w
-    const y = Math.random() * h
-    const s = Math.random() * 2.2
+  if (t.grain) {
+    ctx.globalAlpha = 0.06
     ctx.fillStyle = '#ffffff'
-    ctx.fillRect(x, y, s, s)
+    for (let i = 0; i < 1400; i++) {
+      const x = Math.random() * w
+      const y = Math.random() * h
+      const s = Math.random() * 2.2
+      ctx.fillRect(x, y, s, s)
+    }
+    ctx.globalAlpha = 1
   }
-  ctx.globalAlpha = 1
 
   // Gradiente
   const g = ctx.createRadialGradient(
@@ -130,13 +656,172 @@ export function makeCoverTexture(
     60,
     w * 0.55,
     h * 0.55,
-    900,
+    Math.max(w, h) * 0.88,
   )
   g.addColorStop(0, 'rgba(255,255,255,0.12)')
   g.addColorStop(1, 'rgba(0,0,0,0.35)')
   ctx.fillStyle = g
   ctx.fillRect(0, 0, w, h)
 
+  drawCoverOrnament(ctx, t.ornament, accent, w, h)
+
+  // Patrón
+  if (t.pattern) {
+    ctx.globalAlpha = mode === 'front' ? 0.1 : 0.08
+    ctx.strokeStyle = 'rgba(255,255,255,0.40)'
+    ctx.lineWidth = 2
+    for (let yy = 140; yy < h - 140; yy += 46) {
+      for (let xx = 120; xx < w - 120; xx += 64) {
+        ctx.beginPath()
+        ctx.moveTo(xx, yy)
+        ctx.lineTo(xx + 18, yy + 10)
+        ctx.lineTo(xx + 8, yy + 24)
+        ctx.stroke()
+      }
+    }
+    ctx.globalAlpha = 1
+  }
+
+  // Posiciones en proporción al alto: el canvas de la tapa sigue el aspecto
+  // del libro. En la portada, cabecera arriba y sigilo entre el filete y el
+  // marco; en la contratapa, recuadro del texto y pie con ISBN y editorial.
+  const ruleY = h * 0.4
+  const pad = h * 0.1
+  const hasFoot = !!(t.isbn || t.publisher)
+  const footTop = h - pad - 110
+  const boxTop = h * 0.25
+  const boxBottom = hasFoot ? footTop - 24 : h - pad
+  const [zoneTop, zoneBottom] =
+    mode === 'front' ? [ruleY, h - 90] : [boxTop, boxBottom]
+
+  // Sigilo, reducido si no cabe en su zona
+  const cx = w * 0.5
+  const cy = (zoneTop + zoneBottom) / 2
+  const sigilScale = Math.min(1, (zoneBottom - zoneTop) / 2 / 180)
+  if (t.sigil) drawSigil(ctx, cx, cy, sigilScale, accent, sigilText, font)
+
+  // Texto portada (el color del tema con la opacidad de cada nivel)
+  const text = (alpha: number) => {
+    ctx.fillStyle = t.textColor
+    ctx.globalAlpha = alpha
+  }
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'alphabetic'
+  if (mode === 'front') {
+    text(0.94)
+    ctx.font = font('800 76px')
+    ctx.fillText(String(title), 110, h * 0.215)
+
+    if (subtitle) {
+      text(0.78)
+      ctx.font = font('42px')
+      ctx.fillText(String(subtitle), 110, h * 0.275)
+    }
+
+    if (author) {
+      text(0.72)
+      ctx.font = font('34px')
+      ctx.fillText(String(author), 110, h * 0.332)
+    }
+
+    // Línea + badge
+    ctx.globalAlpha = 0.85 * 0.18
+    ctx.strokeStyle = t.textColor
+    ctx.lineWidth = 3
+    ctx.beginPath()
+    ctx.moveTo(110, ruleY)
+    ctx.lineTo(w - 110, ruleY)
+    ctx.stroke()
+    ctx.globalAlpha = 1
+
+    if (volume) {
+      ctx.fillStyle = accent
+      ctx.globalAlpha = 0.92
+      ctx.beginPath()
+      ctx.arc(w - 170, h - 170, 90, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.globalAlpha = 1
+      ctx.fillStyle = 'rgba(0,0,0,0.35)'
+      ctx.font = font('800 34px')
+      ctx.textAlign = 'center'
+      const badge = t.volumePrefix ? `${t.volumePrefix} ${volume}` : volume
+      ctx.fillText(badge, w - 170, h - 155, 160)
+      ctx.textAlign = 'left'
+    }
+  }
+  ctx.globalAlpha = 1
+
+  // Contratapa
+  if (mode === 'back') {
+    ctx.globalAlpha = 0.75
+    ctx.fillStyle = 'rgba(0,0,0,0.35)'
+    // El recuadro llega hasta el pie (o hasta el margen si no hay pie)
+    ctx.fillRect(120, boxTop, w - 240, boxBottom - boxTop)
+    ctx.globalAlpha = 1
+
+    const blurbText = String(
+      blurb ||
+        'Una maqueta de libro 3D: portada, lomo, grosor y paginas con flip.\n\nHecho con Three.js + CanvasTexture.',
+    )
+    const maxWidth = w - 280
+    const words = blurbText.replaceAll('\n', ' \\n ').split(' ')
+
+    text(0.88)
+    ctx.font = font('30px')
+
+    let x = 140
+    let y = boxTop + 60
+    let line = ''
+    const lh = 40
+    const maxY = boxBottom - 24
+
+    for (let i = 0; i < words.length; i++) {
+      const wds = words[i]
+      if (wds === '\\n') {
+        if (line) ctx.fillText(line, x, y)
+        line = ''
+        y += lh
+        if (y > maxY) break
+        continue
+      }
+      const test = line ? line + ' ' + wds : wds
+      if (ctx.measureText(test).width > maxWidth) {
+        if (line) ctx.fillText(line, x, y)
+        line = wds
+        y += lh
+        if (y > maxY) break
+      } else {
+        line = test
+      }
+    }
+    if (y <= maxY && line) ctx.fillText(line, x, y)
+
+    if (hasFoot) {
+      ctx.globalAlpha = 0.7 * 0.14
+      ctx.fillStyle = t.textColor
+      ctx.fillRect(w - 330, footTop, 210, 110)
+      text(0.65)
+      ctx.font =
+        '24px ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
+      if (t.isbn) ctx.fillText(t.isbn, w - 315, footTop + 50, 190)
+      if (t.publisher) {
+        ctx.fillText(t.publisher, w - 315, footTop + 85, 190)
+      }
+    }
+    ctx.globalAlpha = 1
+  }
+}
+
+// Marco y esquinas de la tapa según el tema
+function drawCoverOrnament(
+  ctx: CanvasRenderingContext2D,
+  ornament: CoverTheme['ornament'],
+  accent: string,
+  w: number,
+  h: number,
+): void {
+  if (ornament === 'none') return
+
   // Marco
   ctx.strokeStyle = 'rgba(255,255,255,0.10)'
   ctx.lineWidth = 10
@@ -145,10 +830,17 @@ export function makeCoverTexture(
   ctx.lineWidth = 6
   ctx.strokeRect(72, 72, w - 144, h - 144)
 
-  // Esquinas
   ctx.strokeStyle = accent
   ctx.globalAlpha = 0.55
   ctx.lineWidth = 6
+  if (ornament === 'frame') {
+    // Filete de acento en lugar de esquinas
+    ctx.strokeRect(90, 90, w - 180, h - 180)
+    ctx.globalAlpha = 1
+    return
+  }
+
+  // Esquinas
   const corner = (x: number, y: number, sx: number, sy: number) => {
     ctx.beginPath()
     ctx.moveTo(x, y + 90 * sy)
@@ -166,27 +858,20 @@ export function makeCoverTexture(
   corner(90, h - 90, 1, -1)
   corner(w - 90, h - 90, -1, -1)
   ctx.globalAlpha = 1
+}
 
-  // Patrón
-  ctx.globalAlpha = mode === 'front' ? 0.1 : 0.08
-  ctx.strokeStyle = 'rgba(255,255,255,0.40)'
-  ctx.lineWidth = 2
-  for (let yy = 140; yy < h - 140; yy += 46) {
-    for (let xx = 120; xx < w - 120; xx += 64) {
-      ctx.beginPath()
-      ctx.moveTo(xx, yy)
-      ctx.lineTo(xx + 18, yy + 10)
-      ctx.lineTo(xx + 8, yy + 24)
-      ctx.stroke()
-    }
-  }
-  ctx.globalAlpha = 1
-
-  // Sigilo
-  const cx = w * 0.5
-  const cy = mode === 'front' ? h * 0.55 : h * 0.45
+function drawSigil(
+  ctx: CanvasRenderingContext2D,
+  cx: number,
+  cy: number,
+  scale: number,
+  accent: string,
+  sigilText: string,
+  font: (spec: string) => string,
+): void {
   ctx.save()
   ctx.translate(cx, cy)
+  ctx.scale(scale, scale)
 
   ctx.globalAlpha = 0.22
   ctx.fillStyle = accent
@@ -213,112 +898,197 @@ export function makeCoverTexture(
   if (sigilText) {
     ctx.globalAlpha = 0.95
     ctx.fillStyle = 'rgba(0,0,0,0.35)'
-    ctx.font = '800 84px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
+    ctx.font = font('800 84px')
     ctx.textAlign = 'center'
     ctx.textBaseline = 'middle'
     ctx.fillText(String(sigilText), 0, 8)
   }
   ctx.globalAlpha = 1
   ctx.restore()
+}
 
-  // Texto portada
-  ctx.textAlign = 'left'
-  ctx.textBaseline = 'alphabetic'
-  if (mode === 'front') {
-    ctx.fillStyle = 'rgba(255,255,255,0.94)'
-    ctx.font = '800 76px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
-    ctx.fillText(String(title), 110, 220)
+/**
+ * Lomo con título, autor y tomo en vertical (se lee de arriba abajo).
+ * `format` es la cara exterior del lomo (ver bookTextureFormats); el valor
+ * por defecto corresponde a las dimensiones por defecto del Book.
+ */
+export function makeSpineTexture(
+  renderer: THREE.WebGLRenderer,
+  content: CoverContent,
+  theme: CoverThemeInput = {},
+  format: TextureFormat = DEFAULT_FORMATS.spine,
+): THREE.Texture {
+  const t = resolveCoverTheme(theme)
+  const logicalWidth = (SPINE_H * format.width) / format.height
+  const { ctx, tex, size } = createCanvasTexture(renderer, format, logicalWidth)
+  const draw = () => {
+    ctx.setTransform(size.scale, 0, 0, size.scale, 0, 0)
+    drawSpine(ctx, content, t, size.logical)
+    tex.needsUpdate = true
+  }
+  draw()
+  redrawWhenReady(tex, coverFonts(t), [], draw)
+  return tex
+}
 
-    if (subtitle) {
-      ctx.fillStyle = 'rgba(255,255,255,0.78)'
-      ctx.font = '42px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
-      ctx.fillText(String(subtitle), 110, 282)
-    }
+function drawSpine(
+  ctx: CanvasRenderingContext2D,
+  content: CoverContent,
+  t: CoverTheme,
+  size: PageSize,
+): void {
+  const {
+    title = 'Libro',
+    author = '',
+    accent = t.accent,
+    volume = 'I',
+  } = content
+  const { width: w, height: h } = size
 
-    if (author) {
-      ctx.fillStyle = 'rgba(255,255,255,0.72)'
-      ctx.font = '34px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
-      ctx.fillText(String(author), 110, 340)
-    }
+  ctx.fillStyle = t.spineColor
+  ctx.fillRect(0, 0, w, h)
 
-    // Línea + badge
-    ctx.globalAlpha = 0.85
-    ctx.strokeStyle = 'rgba(255,255,255,0.18)'
-    ctx.lineWidth = 3
-    ctx.beginPath()
-    ctx.moveTo(110, 410)
-    ctx.lineTo(w - 110, 410)
-    ctx.stroke()
-    ctx.globalAlpha = 1
+  // Volumen: más claro en el centro, como un lomo redondeado
+  const g = ctx.createLinearGradient(0, 0, w, 0)
+  g.addColorStop(0, 'rgba(0,0,0,0.35)')
+  g.addColorStop(0.5, 'rgba(255,255,255,0.08)')
+  g.addColorStop(1, 'rgba(0,0,0,0.35)')
+  ctx.fillStyle = g
+  ctx.fillRect(0, 0, w, h)
 
-    ctx.fillStyle = accent
-    ctx.globalAlpha = 0.92
-    ctx.beginPath()
-    ctx.arc(w - 170, h - 170, 90, 0, Math.PI * 2)
-    ctx.fill()
-    ctx.globalAlpha = 1
-    ctx.fillStyle = 'rgba(0,0,0,0.35)'
-    ctx.font = '800 34px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
-    ctx.fillText('VOL I', w - 215, h - 155)
+  // Nervios
+  ctx.fillStyle = accent
+  ctx.globalAlpha = 0.75
+  for (const y of [90, 118, h - 330, h - 302]) ctx.fillRect(0, y, w, 8)
+  ctx.globalAlpha = 1
+
+  // Título y autor girados
+  const fontSize = Math.min(72, w * 0.5)
+  ctx.save()
+  ctx.translate(w / 2, 170)
+  ctx.rotate(Math.PI / 2)
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'middle'
+  ctx.fillStyle = t.textColor
+  ctx.globalAlpha = 0.94
+  ctx.font = `800 ${fontSize}px ${t.fontFamily}`
+  const maxLen = h - 170 - 380
+  ctx.fillText(String(title), 0, 0, author ? maxLen * 0.68 : maxLen)
+
+  if (author) {
+    ctx.textAlign = 'right'
+    ctx.globalAlpha = 0.72
+    ctx.font = `${Math.round(fontSize * 0.55)}px ${t.fontFamily}`
+    ctx.fillText(String(author), maxLen, 0, maxLen * 0.28)
   }
+  ctx.restore()
 
-  // Contratapa
-  if (mode === 'back') {
-    ctx.globalAlpha = 0.75
-    ctx.fillStyle = 'rgba(0,0,0,0.35)'
-    ctx.fillRect(120, 260, w - 240, 470)
-    ctx.globalAlpha = 1
+  // Tomo
+  const r = Math.min(w * 0.36, 60)
+  ctx.fillStyle = accent
+  ctx.globalAlpha = 0.92
+  ctx.beginPath()
+  ctx.arc(w / 2, h - 190, r, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.globalAlpha = 1
+  ctx.fillStyle = 'rgba(0,0,0,0.45)'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.font = `800 ${Math.round(r * 0.8)}px ${t.fontFamily}`
+  ctx.fillText(String(volume), w / 2, h - 188, r * 1.6)
+}
 
-    const text = String(
-      blurb ||
-        'Una maqueta de libro 3D: portada, lomo, grosor y paginas con flip.\n\nHecho con Three.js + CanvasTexture.',
-    )
-    const maxWidth = w - 280
-    const words = text.replaceAll('\n', ' \\n ').split(' ')
+// Canvas a la densidad del formato (sin pasar de maxTextureSize) y su textura
+function createCanvasTexture(
+  renderer: THREE.WebGLRenderer,
+  format: TextureFormat,
+  logicalWidth: number,
+): {
+  ctx: CanvasRenderingContext2D
+  tex: THREE.CanvasTexture
+  size: CanvasSize
+} {
+  const size = canvasSizeFor(
+    format,
+    logicalWidth,
+    renderer.capabilities.maxTextureSize,
+  )
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D
 
-    ctx.fillStyle = 'rgba(255,255,255,0.88)'
-    ctx.font = '30px system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
+  const tex = new THREE.CanvasTexture(canvas)
+  tex.colorSpace = THREE.SRGBColorSpace
+  tex.anisotropy = renderer.capabilities.getMaxAnisotropy()
+  return { ctx, tex, size }
+}
 
-    let x = 140
-    let y = 320
-    let line = ''
-    const lh = 40
+function pageFonts(theme: PageTheme): string[] {
+  return [
+    ...fontVariants(theme.text.fontFamily),
+    ...fontVariants(theme.titleFont),
+  ]
+}
 
-    for (let i = 0; i < words.length; i++) {
-      const wds = words[i]
-      if (wds === '\\n') {
-        if (line) ctx.fillText(line, x, y)
-        line = ''
-        y += lh
-        continue
-      }
-      const test = line ? line + ' ' + wds : wds
-      if (ctx.measureText(test).width > maxWidth) {
-        if (line) ctx.fillText(line, x, y)
-        line = wds
-        y += lh
-        if (y > 690) break
-      } else {
-        line = test
-      }
-    }
-    if (y <= 690 && line) ctx.fillText(line, x, y)
+function coverFonts(theme: CoverTheme): string[] {
+  return [`32px ${theme.fontFamily}`, `800 32px ${theme.fontFamily}`]
+}
 
-    ctx.globalAlpha = 0.7
-    ctx.fillStyle = 'rgba(255,255,255,0.14)'
-    ctx.fillRect(w - 330, h - 210, 210, 110)
-    ctx.globalAlpha = 1
-    ctx.fillStyle = 'rgba(255,255,255,0.65)'
-    ctx.font =
-      '24px ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace'
-    ctx.fillText('ISBN 000-0-00-000000-0', w - 315, h - 160)
-    ctx.fillText('ED. PROTOTYPE', w - 315, h - 125)
+/**
+ * Si alguna fuente o imagen por URL aún no está lista, la textura queda
+ * dibujada con lo que haya y se vuelve a dibujar cuando terminen de cargar.
+ */
+function redrawWhenReady(
+  tex: THREE.Texture,
+  fonts: string[],
+  images: PageImageSource[],
+  draw: () => void,
+): void {
+  const missingFonts = pendingFonts(fonts)
+  const missingImages = images.filter(
+    (src): src is string => typeof src === 'string' && !readyImage(src),
+  )
+  if (!missingFonts.length && !missingImages.length) {
+    assets.delete(tex)
+    return
   }
 
-  const tex = new THREE.CanvasTexture(c)
-  tex.colorSpace = THREE.SRGBColorSpace
-  tex.anisotropy = renderer.capabilities.getMaxAnisotropy()
-  return tex
+  let disposed = false
+  const onDispose = () => {
+    disposed = true
+  }
+  tex.addEventListener('dispose', onDispose)
+  const ready = Promise.all([
+    loadFonts(missingFonts),
+    Promise.allSettled(missingImages.map(loadPageImage)),
+  ])
+    .then(([, results]) => {
+      if (!disposed) draw()
+      const i = results.findIndex(r => r.status === 'rejected')
+      if (i >= 0) {
+        const { reason } = results[i] as PromiseRejectedResult
+        throw new Error(`no se pudo cargar la imagen ${missingImages[i]}`, {
+          cause: reason,
+        })
+      }
+    })
+    .finally(() => tex.removeEventListener('dispose', onDispose))
+  // Nadie tiene por qué preguntar (ver textureAssetsReady)
+  ready.catch(() => {})
+  assets.set(tex, ready)
+}
+
+// Carga pendiente del último dibujo de cada textura
+const assets = new WeakMap<THREE.Texture, Promise<void>>()
+
+/**
+ * Espera a las fuentes e imágenes por URL del último dibujo de una textura
+ * generada. Rechaza si alguna imagen no cargó (la textura queda dibujada sin
+ * ella).
+ */
+export function textureAssetsReady(tex: THREE.Texture): Promise<void> {
+  return assets.get(tex) ?? Promise.resolve()
 }
 
 export function tuneCoverTexture(tex: THREE.Texture): void {
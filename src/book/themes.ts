@@ -0,0 +1,183 @@
+import { DEFAULT_RICH_TEXT_STYLE } from './rich-text'
+import type { RichTextStyle } from './rich-text'
+
+export type PageOrnament = 'none' | 'frame' | 'double' | 'corners'
+export type CoverOrnament = 'none' | 'corners' | 'frame'
+
+export interface PageTheme {
+  paper: string
+  // Sombra del lomo y del canto (0..1)
+  gutterShade: number
+  ornament: PageOrnament
+  ornamentColor: string
+  titleColor: string
+  titleFont: string
+  titleSize: number
+  footerColor: string
+  footerSize: number
+  // Cuerpo: fuentes, colores e interlineado del texto
+  text: RichTextStyle
+  // Márgenes del cuerpo en px del canvas; `top` es la base de la 1.ª línea
+  margins: { side: number; top: number; bottom: number }
+  // Materiales del Book: canto del bloque de hojas y rugosidad del papel
+  edgeColor: string
+  roughness: number
+}
+
+export interface CoverTheme {
+  front: string
+  back: string
+  accent: string
+  textColor: string
+  fontFamily: string
+  ornament: CoverOrnament
+  // Grano, patrón y sigilo de fondo
+  grain: boolean
+  pattern: boolean
+  sigil: boolean
+  volumePrefix: string
+  // Pie de la contratapa; vacío para no dibujarlo
+  isbn: string
+  publisher: string
+  // Materiales del Book: cantos de las tapas, lomo y rugosidad
+  sideColor: string
+  spineColor: string
+  roughness: number
+}
+
+// Tema parcial: lo que falte sale del tema por defecto
+export type PageThemeInput = Partial<Omit<PageTheme, 'text' | 'margins'>> & {
+  text?: Partial<RichTextStyle>
+  margins?: Partial<PageTheme['margins']>
+}
+export type CoverThemeInput = Partial<CoverTheme>
+
+export interface BookTheme {
+  page?: PageThemeInput
+  cover?: CoverThemeInput
+}
+
+const SANS = 'system-ui, -apple-system, Segoe UI, Roboto, sans-serif'
+const SERIF = 'Georgia, "Times New Roman", serif'
+
+export const DEFAULT_PAGE_THEME: PageTheme = {
+  paper: '#f3ead4',
+  gutterShade: 0.1,
+  ornament: 'frame',
+  ornamentColor: 'rgba(0,0,0,0.12)',
+  titleColor: '#1c1c1c',
+  titleFont: SANS,
+  titleSize: 54,
+  footerColor: 'rgba(0,0,0,0.55)',
+  footerSize: 28,
+  text: DEFAULT_RICH_TEXT_STYLE,
+  margins: { side: 70, top: 210, bottom: 120 },
+  edgeColor: '#f0e6cf',
+  roughness: 0.95,
+}
+
+export const DEFAULT_COVER_THEME: CoverTheme = {
+  front: '#162040',
+  back: '#0f1833',
+  accent: '#d6b35c',
+  textColor: '#ffffff',
+  fontFamily: SANS,
+  ornament: 'corners',
+  grain: true,
+  pattern: true,
+  sigil: true,
+  volumePrefix: 'VOL',
+  isbn: 'ISBN 000-0-00-000000-0',
+  publisher: 'ED. PROTOTYPE',
+  sideColor: '#141c35',
+  spineColor: '#10172d',
+  roughness: 0.85,
+}
+
+export function resolvePageTheme(theme: PageThemeInput = {}): PageTheme {
+  return {
+    ...DEFAULT_PAGE_THEME,
+    ...theme,
+    text: { ...DEFAULT_PAGE_THEME.text, ...theme.text },
+    margins: { ...DEFAULT_PAGE_THEME.margins, ...theme.margins },
+  }
+}
+
+export function resolveCoverTheme(theme: CoverThemeInput = {}): CoverTheme {
+  return { ...DEFAULT_COVER_THEME, ...theme }
+}
+
+/** Temas listos para usar; se pueden extender con spread. */
+export const bookThemes = {
+  // El aspecto de siempre
+  parchment: {
+    page: {},
+    cover: {},
+  },
+  modern: {
+    page: {
+      paper: '#fbfbf8',
+      gutterShade: 0.05,
+      ornament: 'none',
+      titleColor: '#111111',
+      titleSize: 50,
+      footerColor: 'rgba(0,0,0,0.45)',
+      text: {
+        color: 'rgba(0,0,0,0.82)',
+        mutedColor: 'rgba(0,0,0,0.55)',
+        accentColor: '#1f5fbf',
+      },
+      margins: { side: 90 },
+      edgeColor: '#f4f4f0',
+      roughness: 0.8,
+    },
+    cover: {
+      front: '#e9e6df',
+      back: '#d9d5cc',
+      accent: '#1f5fbf',
+      textColor: '#15171c',
+      ornament: 'none',
+      grain: false,
+      pattern: false,
+      sigil: false,
+      volumePrefix: 'N.º',
+      sideColor: '#c9c4b8',
+      spineColor: '#1c2230',
+      roughness: 0.6,
+    },
+  },
+  darkGrimoire: {
+    page: {
+      paper: '#d9c9a3',
+      gutterShade: 0.22,
+      ornament: 'double',
+      ornamentColor: 'rgba(60,20,10,0.35)',
+      titleColor: '#3b0d0d',
+      titleFont: SERIF,
+      titleSize: 56,
+      footerColor: 'rgba(60,20,10,0.6)',
+      text: {
+        fontFamily: SERIF,
+        color: 'rgba(35,15,10,0.9)',
+        mutedColor: 'rgba(60,30,20,0.65)',
+        accentColor: '#7a1010',
+      },
+      edgeColor: '#cbb98f',
+      roughness: 0.98,
+    },
+    cover: {
+      front: '#1a0d12',
+      back: '#12080c',
+      accent: '#b3202a',
+      textColor: '#f2e6d8',
+      fontFamily: SERIF,
+      ornament: 'frame',
+      volumePrefix: 'LIBER',
+      isbn: '',
+      publisher: 'SCRIPTORIUM',
+      sideColor: '#0c0608',
+      spineColor: '#160a0e',
+      roughness: 0.92,
+    },
+  },
+} satisfies Record<string, BookTheme>
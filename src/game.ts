@@ -1,18 +1,47 @@
 import * as THREE from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
-import { Book } from './book'
+import { Book, BookActionError } from './book'
 import type { BookConfig } from './book'
 import {
   makePageTexture,
   makeCoverTexture,
+  makeSpineTexture,
   tuneCoverTexture,
 } from './book/texture-generator'
-import type { PageContent, CoverContent } from './book/texture-generator'
+import type { CoverContent } from './book/texture-generator'
+import {
+  paginate,
+  addTableOfContents,
+  createSpreadProvider,
+} from './book/paginator'
+import type { DocumentSection } from './book/paginator'
+import { bookThemes } from './book/themes'
+import { bookTextureFormats } from './book/texture-format'
+import type { AnnotationTool } from './book/annotations'
+import { createSearchIndex } from './book/search'
+import {
+  DEFAULT_STORAGE_KEY,
+  formatSpreadHash,
+  loadReading,
+  parseSpreadHash,
+  saveReading,
+} from './reading-state'
+
+export interface GameOptions {
+  // Guardar la lectura en localStorage (true = clave por defecto)
+  persist?: boolean | string
+  // Mantener `#spread=N` en la URL y seguirlo si cambia
+  hashRouting?: boolean
+  // Tema de páginas, tapas y materiales
+  theme?: keyof typeof bookThemes
+  // Densidad de las texturas (px por unidad de mundo); más = lectura de cerca
+  pixelsPerUnit?: number
+}
 
 export class Game {
   private static instance: Game | null = null
 
-  private constructor() {
+  private constructor(options: GameOptions) {
     // ---------------------------
     // Self-tests (mini)
     // ---------------------------
@@ -79,20 +108,28 @@ export class Game {
     // ---------------------------
     // Generar texturas del libro
     // ---------------------------
-    const paperTex = makePageTexture(renderer, {
-      title: '',
-      body: '',
-      pageLabel: '',
-    })
+    const theme = bookThemes[options.theme ?? 'parchment']
+    const formats = bookTextureFormats(undefined, options.pixelsPerUnit)
+    const paperTex = makePageTexture(
+      renderer,
+      { title: '', body: '', pageLabel: '' },
+      theme.page,
+      formats.page,
+    )
 
     const frontCoverContent: CoverContent = {
       title: 'Tzedek Tome',
       subtitle: 'Prototype Grimoire',
       author: 'Luis Enrique',
-      accent: '#d6b35c',
       sigilText: 'TV',
     }
-    const frontCoverTex = makeCoverTexture(renderer, frontCoverContent, 'front')
+    const frontCoverTex = makeCoverTexture(
+      renderer,
+      frontCoverContent,
+      'front',
+      theme.cover,
+      formats.cover,
+    )
     tuneCoverTexture(frontCoverTex)
 
     const backCoverContent: CoverContent = {
@@ -103,72 +140,116 @@ export class Game {
         '- Portada + contratapa + lomo\n' +
         '- Texturas generadas con Canvas\n' +
         '- Flip con doble cara y sin parpadeos\n\n' +
-        'Siguiente: curvatura de hoja, sombras y sonido.',
+        'Siguiente: sombras y sonido.',
     }
-    const backCoverTex = makeCoverTexture(renderer, backCoverContent, 'back')
+    const backCoverTex = makeCoverTexture(
+      renderer,
+      backCoverContent,
+      'back',
+      theme.cover,
+      formats.cover,
+    )
     tuneCoverTexture(backCoverTex)
 
-    const pageContents: PageContent[] = [
+    const spineTex = makeSpineTexture(
+      renderer,
+      frontCoverContent,
+      theme.cover,
+      formats.spine,
+    )
+
+    const sections: DocumentSection[] = [
       {
         title: 'Bienvenido',
+        dropCap: true,
+        chapter: true,
         body:
           'Este es un libro simple hecho con planos.\n' +
           'La pagina es una textura generada con Canvas.\n\n' +
           'Haz click en la pagina derecha para avanzar.',
-        pageLabel: 'Pag. 1',
       },
       {
         title: 'Como se usa',
+        chapter: true,
         body:
           'Arrastra para orbitar, rueda para zoom.\n' +
           'Click derecha = siguiente, izquierda = anterior.\n\n' +
           'Ahora ademas hay animacion de pasar pagina.',
-        pageLabel: 'Pag. 2',
       },
       {
         title: 'Texto dinamico',
+        chapter: true,
         body:
-          'Podemos inyectar texto desde JSON, tu backend, o incluso desde Markdown.\n' +
-          'Tambien podemos cambiar tipografias, margenes y estilos.',
-        pageLabel: 'Pag. 3',
+          'Podemos inyectar texto desde JSON, tu backend, o desde un **Markdown** ' +
+          'sencillo:\n\n' +
+          '## Formato\n' +
+          '- parrafos, *cursivas* y **negritas**\n' +
+          '- listas con vinetas o numeradas\n' +
+          '- enlaces: [ir al Lore](page:6) o una [nota](note:Las notas se ' +
+          'abren en una ventanita y se cierran con un click.)\n\n' +
+          '> Las citas van con sangria y una barra lateral.',
       },
       {
         title: 'Proximo paso',
         body:
-          'El siguiente upgrade (si quieres) es doblar la hoja con subdivisiones\n' +
-          'para que se curve durante el giro.',
-        pageLabel: 'Pag. 4',
+          'La hoja ya se dobla con subdivisiones y se curva durante el giro\n' +
+          '(ajustable con pageCurl). Lo siguiente: sombras y sonido.',
       },
       {
         title: 'Lore',
+        chapter: 'Lore: el bestiario',
+        images: [
+          {
+            src: '/vite.svg',
+            placement: 'float-right',
+            caption: 'El rayo de las tormentas',
+            width: 260,
+            height: 260,
+          },
+        ],
         body:
           'Esto ya sirve para libros tipo Skyrim: notas, cartas, bestiarios.\n' +
-          'Lo importante es la tipografia, el ritmo y el sonido.',
-        pageLabel: 'Pag. 5',
+          'Lo importante es la tipografia, el ritmo y el sonido.\n\n' +
+          'Los textos largos ya no hay que cortarlos a mano: el paginador mide ' +
+          'cada linea con la misma fuente que la pagina y, cuando una seccion ' +
+          'no cabe, la continua en la pagina siguiente. Asi un capitulo entero ' +
+          'de un bestiario se escribe como un solo texto. Las criaturas del ' +
+          'norte, los dragones de hueso, las sombras que cazan en los pantanos ' +
+          'y los espiritus de las criptas pueden ocupar tantas paginas como ' +
+          'necesiten sin que nadie tenga que contar palabras ni lineas. El ' +
+          'libro se alarga solo y los spreads se generan a partir de la lista ' +
+          'de paginas resultante, rellenando con una pagina en blanco si el ' +
+          'total es impar.',
+      },
+      {
+        title: 'La profecia',
+        chapter: true,
+        inkReveal: true,
+        body:
+          '> Cuando el ultimo sello se quiebre, la tinta volvera a la pagina ' +
+          'y el libro escribira lo que nadie se atrevio a decir.\n\n' +
+          'Esta pagina se escribe sola la primera vez que la abres. ' +
+          'Haz click para verla entera.',
       },
       {
         title: 'Fin',
+        chapter: true,
         body:
           'Cuando quieras, hacemos: portada, lomo, sombras,\n' +
           'y una curvatura leve al girar.',
-        pageLabel: 'Pag. 6',
       },
     ]
 
-    const spreads = [
-      {
-        left: makePageTexture(renderer, pageContents[0]),
-        right: makePageTexture(renderer, pageContents[1]),
-      },
-      {
-        left: makePageTexture(renderer, pageContents[2]),
-        right: makePageTexture(renderer, pageContents[3]),
-      },
-      {
-        left: makePageTexture(renderer, pageContents[4]),
-        right: makePageTexture(renderer, pageContents[5]),
-      },
-    ]
+    // Índice al principio (se rehace solo al reordenar las secciones); las
+    // texturas de cada spread se generan al acercarse a él
+    const layout = { theme: theme.page, format: formats.page }
+    const pages = addTableOfContents(paginate(sections, layout), layout)
+    const spreadProvider = createSpreadProvider(
+      renderer,
+      pages,
+      theme.page,
+      formats.page,
+    )
 
     // ---------------------------
     // Configuración del libro
@@ -177,13 +258,135 @@ export class Game {
       frontCoverTexture: frontCoverTex,
       backCoverTexture: backCoverTex,
       paperTexture: paperTex,
-      spreads,
+      spineTexture: spineTex,
+      spreadProvider,
       pageInfoElementId: 'pageInfo',
+      theme,
     }
 
     const book = new Book(renderer, camera, bookConfig)
     scene.add(book.getGroup())
 
+    // Las acciones rechazan si están bloqueadas (otra animación, fuera de
+    // rango...); desde la UI basta con ignorarlo
+    const quiet = (action: Promise<unknown>) => {
+      action.catch((err: unknown) => {
+        if (!(err instanceof BookActionError)) console.error(err)
+      })
+    }
+    // Lo que falla fuera de una acción (el provider...) llega como evento
+    book.on('error', event => console.error(`[Book] ${event.source}`, event))
+
+    // ---------------------------
+    // Estado de lectura (localStorage + #spread=N)
+    // ---------------------------
+    const storageKey =
+      typeof options.persist === 'string'
+        ? options.persist
+        : options.persist
+          ? DEFAULT_STORAGE_KEY
+          : null
+    const readSaved = () => {
+      try {
+        return storageKey ? loadReading(storageKey) : null
+      } catch (err) {
+        console.warn('[Game] estado guardado ilegible, se ignora', err)
+        return null
+      }
+    }
+    const saved = readSaved()
+    if (saved) {
+      book.importState(saved.book)
+      if (saved.camera) {
+        camera.position.fromArray(saved.camera.position)
+        controls.target.fromArray(saved.camera.target)
+        controls.update()
+      }
+    }
+    // Un enlace profundo manda sobre lo guardado y abre el libro
+    const linked = options.hashRouting
+      ? parseSpreadHash(window.location.hash)
+      : null
+    if (linked !== null) book.importState({ spread: linked, coverOpen: true })
+
+    let saveFailed = false
+    const save = () => {
+      if (!storageKey) return
+      const ok = saveReading(storageKey, {
+        book: book.exportState(),
+        camera: {
+          position: camera.position.toArray(),
+          target: controls.target.toArray(),
+        },
+      })
+      // Modo privado o cuota llena: se sigue sin guardar y se avisa una vez
+      if (!ok && !saveFailed) {
+        console.warn('[Game] no se pudo guardar el estado de lectura')
+      }
+      saveFailed = !ok
+    }
+    book.on('spreadchange', ({ index }) => {
+      if (options.hashRouting) {
+        history.replaceState(null, '', formatSpreadHash(index))
+      }
+      save()
+    })
+    book.on('bookmarkchange', save)
+    book.on('revealend', save)
+    book.on('annotationchange', save)
+    book.on('coveropenend', save)
+    book.on('covercloseend', save)
+    controls.addEventListener('end', save)
+    window.addEventListener('pagehide', save)
+
+    if (options.hashRouting) {
+      history.replaceState(null, '', formatSpreadHash(book.getSpreadIndex()))
+      window.addEventListener('hashchange', () => {
+        const target = parseSpreadHash(window.location.hash)
+        if (target === null || target === book.getSpreadIndex()) return
+        if (book.isCoverOpen())
+          quiet(book.goToSpread(target, { animate: true }))
+        else quiet(book.goToSpread(target))
+      })
+    }
+
+    // Notas al pie: ventanita que se cierra con el siguiente click o Escape
+    const footnote = document.getElementById('footnote')
+    book.on('regionactivate', ({ region }) => {
+      if (!footnote || region.action.type !== 'footnote') return
+      footnote.textContent = region.action.text
+      footnote.hidden = false
+    })
+    const closeFootnote = () => {
+      if (footnote) footnote.hidden = true
+    }
+
+    // Búsqueda: F pregunta qué buscar, N / Mayús+N recorren los resultados
+    const searchIndex = createSearchIndex(pages)
+    let query = ''
+    book.on('searchchange', ({ index, total, match }) => {
+      if (!footnote || !query) return
+      footnote.textContent = !total
+        ? `Sin resultados para "${query}"`
+        : match
+          ? `"${query}" ${index + 1} de ${total}: ${match.excerpt}`
+          : `"${query}": ${total} resultados`
+      footnote.hidden = false
+    })
+    const search = () => {
+      const text = window.prompt('Buscar en el libro', query)
+      if (text === null) return
+      query = text.trim()
+      book.setSearchResults(query ? searchIndex.search(query) : [])
+      if (book.getSearchResults().matches.length) {
+        quiet(book.nextSearchResult(1, { animate: book.isCoverOpen() }))
+      }
+    }
+    window.addEventListener('pointerdown', closeFootnote)
+    window.addEventListener('keydown', e => {
+      if (e.key === 'Escape') closeFootnote()
+    })
+
     // ---------------------------
     // Interaccion (click vs drag)
     // ---------------------------
@@ -193,14 +396,95 @@ export class Game {
     let downX = 0
     let downY = 0
     let downAt = 0
+    // Página agarrada en pointerdown; el arrastre empieza al superar el umbral
+    let grab: { dir: 1 | -1; dragging: boolean } | null = null
+    // Con una herramienta activa, arrastrar sobre la página dibuja
+    let annotationTool: AnnotationTool | null = null
+
+    function setRayFromPointer(ev: PointerEvent | MouseEvent) {
+      const rect = renderer.domElement.getBoundingClientRect()
+      mouse.x = ((ev.clientX - rect.left) / rect.width) * 2 - 1
+      mouse.y = -(((ev.clientY - rect.top) / rect.height) * 2 - 1)
+      raycaster.setFromCamera(mouse, camera)
+    }
+
+    function pickPage(): 1 | -1 | 0 {
+      // Sin hijos: las cintas de los marcadores cuelgan de las páginas y un
+      // clic sobre ellas también debe coger la hoja
+      const hits = raycaster.intersectObjects(
+        [book.getLeftPage(), book.getRightPage()],
+        false,
+      )
+      if (!hits.length) return 0
+      const hit = hits[0].object
+      if (hit.name === 'rightPage') return 1
+      if (hit.name === 'leftPage') return -1
+      return 0
+    }
 
     function onPointerDown(ev: PointerEvent) {
       downX = ev.clientX
       downY = ev.clientY
       downAt = performance.now()
+
+      grab = null
+      if (book.isFlipActive() || !book.isCoverOpen()) return
+      setRayFromPointer(ev)
+      if (annotationTool) {
+        if (book.beginAnnotation(raycaster.ray, { tool: annotationTool })) {
+          controls.enabled = false
+        }
+        return
+      }
+      const dir = pickPage()
+      if (!dir) return
+      // Sobre una página el arrastre gira la hoja en vez de orbitar
+      grab = { dir, dragging: false }
+      controls.enabled = false
+    }
+
+    function onPointerMove(ev: PointerEvent) {
+      if (book.isAnnotating()) {
+        setRayFromPointer(ev)
+        book.extendAnnotation(raycaster.ray)
+        return
+      }
+      if (annotationTool) return
+      if (!grab) {
+        // Cursor de enlace sobre las zonas interactivas de la página
+        setRayFromPointer(ev)
+        const region = book.regionAt(raycaster.ray)
+        renderer.domElement.style.cursor = region ? 'pointer' : ''
+        return
+      }
+      setRayFromPointer(ev)
+      if (grab.dragging) {
+        book.dragFlip(raycaster.ray)
+        return
+      }
+      const dx = ev.clientX - downX
+      const dy = ev.clientY - downY
+      if (dx * dx + dy * dy <= 25) return
+      if (book.beginFlipDrag(grab.dir, raycaster.ray)) {
+        grab.dragging = true
+        book.dragFlip(raycaster.ray)
+      } else {
+        grab = null
+        controls.enabled = true
+      }
     }
 
     function onPointerUp(ev: PointerEvent) {
+      const wasDragging = grab?.dragging ?? false
+      grab = null
+      controls.enabled = true
+      book.endAnnotation()
+      if (annotationTool) return
+      if (wasDragging) {
+        quiet(book.releaseFlip())
+        return
+      }
+
       if (book.isFlipActive()) return
 
       const dx = ev.clientX - downX
@@ -209,37 +493,28 @@ export class Game {
       const elapsed = performance.now() - downAt
       if (dist2 > 25 || elapsed > 350) return
 
-      const rect = renderer.domElement.getBoundingClientRect()
-      mouse.x = ((ev.clientX - rect.left) / rect.width) * 2 - 1
-      mouse.y = -(((ev.clientY - rect.top) / rect.height) * 2 - 1)
-
-      raycaster.setFromCamera(mouse, camera)
-      const hits = raycaster.intersectObjects(
-        [book.getLeftPage(), book.getRightPage()],
-        true,
-      )
-      if (!hits.length) return
-
-      const hit = hits[0].object
-      if (hit.name === 'rightPage') book.flipPage(1)
-      if (hit.name === 'leftPage') book.flipPage(-1)
+      // Un click durante el revelado de tinta lo completa
+      if (book.skipReveal()) return
+      setRayFromPointer(ev)
+      if (book.activateRegion(raycaster.ray)) return
+      const dir = pickPage()
+      if (dir) quiet(book.flipPage(dir))
     }
 
     renderer.domElement.addEventListener('pointerdown', onPointerDown)
+    renderer.domElement.addEventListener('pointermove', onPointerMove)
     renderer.domElement.addEventListener('pointerup', onPointerUp)
+    renderer.domElement.addEventListener('pointercancel', onPointerUp)
 
     // Doble click en la tapa para abrir/cerrar
     function toggleCoverFromPointer(ev: PointerEvent) {
       if (book.isFlipActive()) return
-      const rect = renderer.domElement.getBoundingClientRect()
-      mouse.x = ((ev.clientX - rect.left) / rect.width) * 2 - 1
-      mouse.y = -(((ev.clientY - rect.top) / rect.height) * 2 - 1)
-      raycaster.setFromCamera(mouse, camera)
+      setRayFromPointer(ev)
       const hits = raycaster.intersectObjects(
         [book.getLeftCover(), book.getRightCover()],
         true,
       )
-      if (hits.length) book.toggleCover()
+      if (hits.length) quiet(book.toggleCover())
     }
     renderer.domElement.addEventListener(
       'dblclick',
@@ -248,10 +523,50 @@ export class Game {
 
     // Teclado
     window.addEventListener('keydown', e => {
-      if (e.key === 'c' || e.key === 'C') book.toggleCover()
+      if (e.key === 'c' || e.key === 'C') quiet(book.toggleCover())
+      if (e.key === 'p' || e.key === 'P') {
+        if (book.isPaused()) book.resume()
+        else book.pause()
+      }
       if (book.isFlipActive()) return
-      if (e.key === 'ArrowRight') book.flipPage(1)
-      if (e.key === 'ArrowLeft') book.flipPage(-1)
+      if (e.key === 'ArrowRight') quiet(book.flipPage(1))
+      if (e.key === 'ArrowLeft') quiet(book.flipPage(-1))
+      if (e.key === 'Home') quiet(book.goToSpread(0, { animate: true }))
+      if (e.key === 'End')
+        quiet(book.goToSpread(book.getSpreadCount() - 1, { animate: true }))
+
+      // Marcadores: B pone/quita el del spread actual, M salta al siguiente
+      if (e.key === 'b' || e.key === 'B') {
+        const here = book.getSpreadIndex()
+        const existing = book.listBookmarks().find(b => b.spread === here)
+        if (existing) book.removeBookmark(existing.id)
+        else book.addBookmark(here)
+      }
+      if (e.key === 'm' || e.key === 'M') {
+        const marks = book.listBookmarks()
+        const next =
+          marks.find(b => b.spread > book.getSpreadIndex()) ?? marks[0]
+        if (next) quiet(book.goToBookmark(next.id, { animate: true }))
+      }
+
+      // Anotaciones: D alterna pluma / rotulador / lectura, X borra el spread
+      if (e.key === 'd' || e.key === 'D') {
+        book.endAnnotation()
+        annotationTool =
+          annotationTool === null
+            ? 'pen'
+            : annotationTool === 'pen'
+              ? 'highlighter'
+              : null
+        renderer.domElement.style.cursor = annotationTool ? 'crosshair' : ''
+      }
+      if (e.key === 'x' || e.key === 'X') book.clearAnnotations()
+
+      if (e.key === 'f' || e.key === 'F') search()
+      if (e.key === 'n' || e.key === 'N') {
+        const dir = e.shiftKey ? -1 : 1
+        quiet(book.nextSearchResult(dir, { animate: book.isCoverOpen() }))
+      }
     })
 
     // ---------------------------
@@ -276,9 +591,10 @@ export class Game {
     })
   }
 
-  public static getInstance(): Game {
+  /** Las opciones solo cuentan en la primera llamada, que crea la instancia. */
+  public static getInstance(options: GameOptions = {}): Game {
     if (this.instance === null) {
-      this.instance = new Game()
+      this.instance = new Game(options)
     }
     return this.instance
   }
@@ -0,0 +1,64 @@
+import type { BookState } from './book'
+
+export interface CameraPose {
+  position: [number, number, number]
+  target: [number, number, number]
+}
+
+// Lo que Game guarda entre recargas
+export interface SavedReading {
+  book: Partial<BookState>
+  camera?: CameraPose
+}
+
+export const DEFAULT_STORAGE_KEY = 'book-3d:reading'
+
+function isVec3(v: unknown): v is [number, number, number] {
+  return Array.isArray(v) && v.length === 3 && v.every(Number.isFinite)
+}
+
+/**
+ * Lectura guardada en `key`; null si no hay nada, no se puede leer el
+ * almacenamiento o no tiene la forma esperada. Lanza si no es JSON.
+ */
+export function loadReading(key: string): SavedReading | null {
+  let raw: string | null
+  try {
+    raw = localStorage.getItem(key)
+  } catch {
+    return null
+  }
+  if (!raw) return null
+
+  const data = JSON.parse(raw) as Partial<SavedReading> | null
+  if (!data || typeof data.book !== 'object' || data.book === null) {
+    return null
+  }
+  const camera =
+    isVec3(data.camera?.position) && isVec3(data.camera?.target)
+      ? data.camera
+      : undefined
+  return { book: data.book, camera }
+}
+
+/** Guarda la lectura; false si no se pudo (modo privado, cuota llena...). */
+export function saveReading(key: string, reading: SavedReading): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(reading))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Spread de un hash `#spread=N` (N empieza en 1, como el contador de la UI). */
+export function parseSpreadHash(hash: string): number | null {
+  const match = /(?:^#|&)spread=(\d+)(?:&|$)/.exec(hash)
+  if (!match) return null
+  const n = Number(match[1])
+  return n >= 1 ? n - 1 : null
+}
+
+export function formatSpreadHash(index: number): string {
+  return `#spread=${index + 1}`
+}